@@ -0,0 +1,19 @@
+import type { Metadata } from "next"
+import ProjectLibrary from "@/components/project-library"
+
+export const metadata: Metadata = {
+  title: "Projects · Make an Orchestra",
+}
+
+export default function ProjectsPage() {
+  return (
+    <main className="min-h-screen p-4 md:p-8 bg-gradient-to-b from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl md:text-4xl font-bold text-center mb-8 text-slate-800 dark:text-slate-100">
+          Projects
+        </h1>
+        <ProjectLibrary />
+      </div>
+    </main>
+  )
+}
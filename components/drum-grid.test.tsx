@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import DrumGrid from "./drum-grid";
+import { DRUM_KIT } from "@/lib/instruments";
+import type { Track } from "@/lib/types";
+
+describe("DrumGrid", () => {
+  const track: Track = {
+    id: "drums",
+    instrument: "drums",
+    volume: 0,
+    muted: false,
+    notes: [
+      { step: 0, pitch: "C2", duration: "eighth" },
+      { step: 2.5, pitch: "D2", duration: "sixteenth" },
+    ],
+  };
+
+  const renderGrid = (onToggle = vi.fn()) =>
+    render(
+      <DrumGrid
+        track={track}
+        kit={DRUM_KIT}
+        totalSteps={8}
+        timeSignature={{ numerator: 4, denominator: 4 }}
+        currentStep={0}
+        isPlaying={false}
+        onToggle={onToggle}
+      />
+    );
+
+  it("shows a row per kit piece and a cell per step", () => {
+    renderGrid();
+
+    expect(
+      screen.getAllByRole("rowheader").map((row) => row.textContent)
+    ).toEqual(DRUM_KIT.map((piece) => piece.name));
+    expect(screen.getAllByRole("button")).toHaveLength(DRUM_KIT.length * 8);
+    expect(
+      screen.getByRole("button", { name: "Kick, step 1" })
+    ).toHaveAttribute("aria-pressed", "true");
+    expect(
+      screen.getByRole("button", { name: "Snare, step 3" })
+    ).toHaveAttribute("aria-pressed", "true");
+    expect(
+      screen.getByRole("button", { name: "Snare, step 1" })
+    ).toHaveAttribute("aria-pressed", "false");
+  });
+
+  it("places hits on empty cells and removes the note in a lit one", () => {
+    const onToggle = vi.fn();
+    renderGrid(onToggle);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Closed hi-hat, step 2" })
+    );
+    expect(onToggle).toHaveBeenLastCalledWith(1, "F#2");
+
+    // The lit cell removes the off-grid note where it actually starts
+    fireEvent.click(screen.getByRole("button", { name: "Snare, step 3" }));
+    expect(onToggle).toHaveBeenLastCalledWith(2.5, "D2");
+  });
+});
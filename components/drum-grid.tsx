@@ -0,0 +1,86 @@
+"use client";
+
+import type { KitPiece } from "@/lib/instruments";
+import { kitPiece } from "@/lib/instruments";
+import { STEP_EPSILON, beatSteps, stepsPerMeasure } from "@/lib/music-utils";
+import type { TimeSignature, Track } from "@/lib/types";
+
+interface DrumGridProps {
+  track: Track;
+  kit: KitPiece[];
+  totalSteps: number;
+  timeSignature: TimeSignature;
+  currentStep: number;
+  isPlaying: boolean;
+  // Place an eighth-note hit, or remove the note already starting there
+  onToggle: (step: number, pitch: string) => void;
+}
+
+// Edits a kit track as a step sequencer: a row per kit piece and a column per
+// eighth-note step. Each cell switches the piece on or off for that step.
+export default function DrumGrid({
+  track,
+  kit,
+  totalSteps,
+  timeSignature,
+  currentStep,
+  isPlaying,
+  onToggle,
+}: DrumGridProps) {
+  const measureSteps = stepsPerMeasure(timeSignature);
+  const beat = beatSteps(timeSignature);
+
+  return (
+    <div className="mt-4 overflow-x-auto" data-testid="drum-grid">
+      <table className="border-separate border-spacing-0.5 text-xs">
+        <tbody>
+          {kit.map((piece) => (
+            <tr key={piece.pitch}>
+              <th
+                scope="row"
+                className="sticky left-0 whitespace-nowrap bg-background pr-2 text-left font-medium"
+              >
+                {piece.name}
+              </th>
+              {Array.from({ length: totalSteps }, (_, step) => {
+                // Notes off the grid, such as tuplets, light the step they start in
+                const hit = track.notes.find(
+                  (note) =>
+                    Math.floor(note.step + STEP_EPSILON) === step &&
+                    kitPiece(kit, note.pitch) === piece
+                );
+
+                return (
+                  <td key={step}>
+                    <button
+                      type="button"
+                      aria-label={`${piece.name}, step ${step + 1}`}
+                      aria-pressed={!!hit}
+                      className={`block h-6 w-6 rounded-sm border ${
+                        hit
+                          ? "border-primary bg-primary"
+                          : step % beat === 0
+                            ? "bg-muted hover:bg-primary/30"
+                            : "bg-muted/50 hover:bg-primary/30"
+                      } ${step % measureSteps === 0 ? "ml-1" : ""} ${
+                        isPlaying && step === currentStep
+                          ? "ring-2 ring-primary/60"
+                          : ""
+                      }`}
+                      onClick={() =>
+                        onToggle(
+                          hit ? hit.step : step,
+                          hit ? hit.pitch : piece.pitch
+                        )
+                      }
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import EffectsChain from "./effects-chain";
+import { createEffect } from "@/lib/effects";
+import type { TrackEffect } from "@/lib/types";
+
+describe("EffectsChain", () => {
+  // Radix sliders watch their size, which jsdom can't report
+  beforeAll(() => {
+    globalThis.ResizeObserver ??= class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    };
+  });
+
+  const effects: TrackEffect[] = [
+    { type: "eq", params: { low: 3, mid: 0, high: -6 } },
+    { type: "reverb", params: { decay: 4, wet: 0.5 }, bypassed: true },
+  ];
+
+  it("shows each effect with its settings in chain order", () => {
+    render(<EffectsChain effects={effects} onChange={vi.fn()} />);
+
+    const [eq, reverb] = screen.getAllByTestId("effect");
+    expect(eq).toHaveTextContent("EQ");
+    expect(eq).toHaveTextContent("-6 dB");
+    expect(reverb).toHaveTextContent("4 s");
+    expect(screen.getByRole("switch", { name: "Reverb on" })).not.toBeChecked();
+    expect(
+      screen.getByRole("button", { name: "Move EQ earlier" })
+    ).toBeDisabled();
+  });
+
+  it("adds effects at the end of the chain with their default settings", () => {
+    const onChange = vi.fn();
+    render(<EffectsChain effects={effects} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Compressor" }));
+    expect(onChange).toHaveBeenCalledWith(
+      [...effects, createEffect("compressor")],
+      "Add effect"
+    );
+  });
+
+  it("reorders, bypasses and removes effects", () => {
+    const onChange = vi.fn();
+    render(<EffectsChain effects={effects} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Move EQ later" }));
+    expect(onChange).toHaveBeenLastCalledWith(
+      [effects[1], effects[0]],
+      "Reorder effects"
+    );
+
+    fireEvent.click(screen.getByRole("switch", { name: "Reverb on" }));
+    expect(onChange).toHaveBeenLastCalledWith(
+      [effects[0], { type: "reverb", params: { decay: 4, wet: 0.5 } }],
+      "Enable effect"
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove EQ" }));
+    expect(onChange).toHaveBeenLastCalledWith([effects[1]], "Remove effect");
+  });
+});
@@ -0,0 +1,159 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import {
+  EFFECT_TYPES,
+  EFFECTS,
+  createEffect,
+  effectParam,
+} from "@/lib/effects";
+import type { TrackEffect } from "@/lib/types";
+
+interface EffectsChainProps {
+  effects: TrackEffect[];
+  // Apply an edited chain, labelled for undo. Edits in the same group,
+  // such as one slider drag, are undone together.
+  onChange: (effects: TrackEffect[], label: string, group?: string) => void;
+}
+
+// Edits a track's insert effects. The track plays through them from top to
+// bottom, and a bypassed effect keeps its place and settings without sounding.
+export default function EffectsChain({ effects, onChange }: EffectsChainProps) {
+  // The chain with one effect replaced
+  const replace = (index: number, effect: TrackEffect) =>
+    effects.map((current, i) => (i === index ? effect : current));
+
+  const move = (index: number, offset: number) => {
+    const moved = [...effects];
+    const [effect] = moved.splice(index, 1);
+    moved.splice(index + offset, 0, effect);
+    onChange(moved, "Reorder effects");
+  };
+
+  return (
+    <div className="space-y-3" data-testid="effects-chain">
+      {effects.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No effects. The track plays straight to the output.
+        </p>
+      )}
+
+      {effects.map((effect, index) => {
+        const { name, params } = EFFECTS[effect.type];
+        return (
+          <div
+            key={index}
+            data-testid="effect"
+            className={`space-y-2 rounded-md border p-2 ${
+              effect.bypassed ? "opacity-60" : ""
+            }`}
+          >
+            <div className="flex items-center gap-1">
+              <span className="flex-1 text-sm font-medium">{name}</span>
+              <Switch
+                checked={!effect.bypassed}
+                aria-label={`${name} on`}
+                onCheckedChange={(on) => {
+                  const { bypassed, ...enabled } = effect;
+                  onChange(
+                    replace(
+                      index,
+                      on ? enabled : { ...effect, bypassed: true }
+                    ),
+                    on ? "Enable effect" : "Bypass effect"
+                  );
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Move ${name} earlier`}
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Move ${name} later`}
+                disabled={index === effects.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Remove ${name}`}
+                onClick={() =>
+                  onChange(
+                    effects.filter((_, i) => i !== index),
+                    "Remove effect"
+                  )
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {params.map((param) => {
+              const value = effectParam(effect, param.id);
+              return (
+                <div key={param.id} className="flex items-center gap-2">
+                  <Label className="w-16 text-xs">{param.label}</Label>
+                  <Slider
+                    className="flex-1"
+                    aria-label={`${name} ${param.label.toLowerCase()}`}
+                    value={[value]}
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                    onValueChange={([next]) =>
+                      onChange(
+                        replace(index, {
+                          ...effect,
+                          params: { ...effect.params, [param.id]: next },
+                        }),
+                        "Change effect",
+                        `effect:${index}:${param.id}`
+                      )
+                    }
+                  />
+                  <span className="w-14 text-right font-mono text-xs">
+                    {value}
+                    {param.unit && ` ${param.unit}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-1">
+        {EFFECT_TYPES.map((type) => (
+          <Button
+            key={type}
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2"
+            onClick={() =>
+              onChange([...effects, createEffect(type)], "Add effect")
+            }
+          >
+            <Plus className="h-3 w-3" />
+            {EFFECTS[type].name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import MixerPanel from "./mixer-panel";
+import type { Track } from "@/lib/types";
+
+describe("MixerPanel", () => {
+  // Radix sliders watch their size, which jsdom can't report
+  beforeAll(() => {
+    globalThis.ResizeObserver ??= class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const tracks: Track[] = [
+    { id: "1", instrument: "violin", notes: [], volume: -6, muted: false },
+    {
+      id: "2",
+      instrument: "cello",
+      notes: [],
+      volume: 0,
+      muted: false,
+      pan: -0.3,
+      solo: true,
+      reverbSend: 0.25,
+    },
+  ];
+
+  const renderMixer = (props: Partial<Parameters<typeof MixerPanel>[0]> = {}) =>
+    render(
+      <MixerPanel
+        tracks={tracks}
+        masterVolume={-3}
+        isPlaying={false}
+        readLevels={() => ({
+          tracks: {},
+          master: { rms: -Infinity, peak: -Infinity },
+        })}
+        onVolumeChange={vi.fn()}
+        onPanChange={vi.fn()}
+        onSendChange={vi.fn()}
+        onMuteToggle={vi.fn()}
+        onSoloToggle={vi.fn()}
+        onMasterVolumeChange={vi.fn()}
+        {...props}
+      />
+    );
+
+  it("shows a strip per track and a master strip", () => {
+    renderMixer();
+
+    expect(screen.getByTestId("channel-1")).toHaveTextContent("Violin");
+    expect(screen.getByTestId("channel-1")).toHaveTextContent("-6 dB");
+    expect(screen.getByTestId("channel-2")).toHaveTextContent("L30");
+    expect(screen.getByTestId("channel-2")).toHaveTextContent("25%");
+    expect(screen.getByTestId("channel-master")).toHaveTextContent("-3 dB");
+  });
+
+  it("dims the tracks a solo leaves out", () => {
+    renderMixer();
+
+    expect(screen.getByTestId("channel-1")).toHaveClass("opacity-50");
+    expect(screen.getByTestId("channel-2")).not.toHaveClass("opacity-50");
+    expect(
+      screen.getByRole("button", { name: "Solo Cello (track 2)" })
+    ).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("solos exclusively unless a modifier key is held", () => {
+    const onSoloToggle = vi.fn();
+    const onMuteToggle = vi.fn();
+    renderMixer({ onSoloToggle, onMuteToggle });
+
+    const solo = screen.getByRole("button", { name: "Solo Violin (track 1)" });
+    fireEvent.click(solo);
+    expect(onSoloToggle).toHaveBeenLastCalledWith("1", false);
+    fireEvent.click(solo, { ctrlKey: true });
+    expect(onSoloToggle).toHaveBeenLastCalledWith("1", true);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Mute Violin (track 1)" })
+    );
+    expect(onMuteToggle).toHaveBeenCalledWith("1");
+  });
+
+  it("reads the meters while playing", () => {
+    vi.useFakeTimers();
+    const readLevels = vi.fn(() => ({
+      tracks: { "1": { rms: -12.4, peak: -4.2 } },
+      master: { rms: -9, peak: 1.5 },
+    }));
+    renderMixer({ isPlaying: true, readLevels });
+
+    act(() => {
+      vi.advanceTimersByTime(60);
+    });
+
+    expect(
+      screen.getByRole("meter", { name: "Violin (track 1) level" })
+    ).toHaveAttribute("aria-valuenow", "-12");
+    expect(screen.getByRole("meter", { name: "Master level" })).toHaveAttribute(
+      "aria-valuenow",
+      "-9"
+    );
+  });
+});
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { getInstrument } from "@/lib/instruments";
+import {
+  MAX_VOLUME,
+  METER_CEILING,
+  METER_FLOOR,
+  MIN_VOLUME,
+  type ChannelLevel,
+  type MeterReading,
+  isAudible,
+  meterPercent,
+  readMeter,
+} from "@/lib/mixer";
+import type { Track } from "@/lib/types";
+
+// How often the meters are read while playing
+const METER_INTERVAL_MS = 50;
+
+// Meter levels by track id and for the master
+export interface MixerLevels {
+  tracks: Record<string, ChannelLevel>;
+  master: ChannelLevel;
+}
+
+interface MixerPanelProps {
+  tracks: Track[];
+  masterVolume: number;
+  isPlaying: boolean;
+  // Read the current RMS level and sample peak of every channel
+  readLevels: () => MixerLevels;
+  onVolumeChange: (trackId: string, volume: number) => void;
+  onPanChange: (trackId: string, pan: number) => void;
+  onSendChange: (trackId: string, reverbSend: number) => void;
+  onMuteToggle: (trackId: string) => void;
+  // Solo a track on its own, or alongside the soloed tracks when `add` is set
+  onSoloToggle: (trackId: string, add: boolean) => void;
+  onMasterVolumeChange: (volume: number) => void;
+}
+
+// A channel strip per track and a master strip, with meters that run during playback.
+// Solo is exclusive: soloing a track unsolos the rest unless Ctrl, Cmd or Shift is held.
+export default function MixerPanel({
+  tracks,
+  masterVolume,
+  isPlaying,
+  readLevels,
+  onVolumeChange,
+  onPanChange,
+  onSendChange,
+  onMuteToggle,
+  onSoloToggle,
+  onMasterVolumeChange,
+}: MixerPanelProps) {
+  const [readings, setReadings] = useState<Record<string, MeterReading>>({});
+  const readLevelsRef = useRef(readLevels);
+  readLevelsRef.current = readLevels;
+
+  useEffect(() => {
+    if (!isPlaying) {
+      setReadings({});
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const { tracks: levels, master } = readLevelsRef.current();
+      const now = Date.now();
+      setReadings((previous) => {
+        const next: Record<string, MeterReading> = {
+          master: readMeter(previous.master, master, now),
+        };
+        Object.entries(levels).forEach(([id, level]) => {
+          next[id] = readMeter(previous[id], level, now);
+        });
+        return next;
+      });
+    }, METER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2" data-testid="mixer">
+      {tracks.map((track) => {
+        const name = getInstrument(track.instrument)?.name ?? track.instrument;
+        const label = `${name} (track ${track.id})`;
+        const pan = track.pan ?? 0;
+        const send = track.reverbSend ?? 0;
+
+        return (
+          <div
+            key={track.id}
+            data-testid={`channel-${track.id}`}
+            className={`w-44 flex-shrink-0 space-y-2 rounded-md border p-2 ${
+              isAudible(track, tracks) ? "" : "opacity-50"
+            }`}
+          >
+            <div className="truncate text-sm font-medium" title={label}>
+              {name}
+            </div>
+            <LevelMeter label={label} reading={readings[track.id]} />
+
+            <StripSlider
+              label="Fader"
+              ariaLabel={`${label} fader`}
+              value={track.volume}
+              min={MIN_VOLUME}
+              max={MAX_VOLUME}
+              step={1}
+              display={`${track.volume} dB`}
+              onChange={(volume) => onVolumeChange(track.id, volume)}
+            />
+            <StripSlider
+              label="Pan"
+              ariaLabel={`${label} pan`}
+              value={pan}
+              min={-1}
+              max={1}
+              step={0.05}
+              display={formatPan(pan)}
+              onChange={(value) => onPanChange(track.id, value)}
+            />
+            <StripSlider
+              label="Reverb"
+              ariaLabel={`${label} reverb send`}
+              value={send}
+              min={0}
+              max={1}
+              step={0.01}
+              display={`${Math.round(send * 100)}%`}
+              onChange={(value) => onSendChange(track.id, value)}
+            />
+
+            <div className="flex gap-1">
+              <Button
+                variant={track.muted ? "destructive" : "outline"}
+                size="sm"
+                className="h-7 flex-1"
+                aria-label={`Mute ${label}`}
+                aria-pressed={track.muted}
+                onClick={() => onMuteToggle(track.id)}
+              >
+                M
+              </Button>
+              <Button
+                variant={track.solo ? "default" : "outline"}
+                size="sm"
+                className="h-7 flex-1"
+                aria-label={`Solo ${label}`}
+                aria-pressed={!!track.solo}
+                title="Ctrl-click to solo alongside other tracks"
+                onClick={(e) =>
+                  onSoloToggle(track.id, e.ctrlKey || e.metaKey || e.shiftKey)
+                }
+              >
+                S
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div
+        data-testid="channel-master"
+        className="w-44 flex-shrink-0 space-y-2 rounded-md border border-primary/30 bg-primary/5 p-2"
+      >
+        <div className="text-sm font-medium">Master</div>
+        <LevelMeter label="Master" reading={readings.master} />
+        <StripSlider
+          label="Fader"
+          ariaLabel="Master fader"
+          value={masterVolume}
+          min={MIN_VOLUME}
+          max={MAX_VOLUME}
+          step={1}
+          display={`${masterVolume} dB`}
+          onChange={onMasterVolumeChange}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface StripSliderProps {
+  label: string;
+  ariaLabel: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display: string;
+  onChange: (value: number) => void;
+}
+
+function StripSlider({
+  label,
+  ariaLabel,
+  value,
+  min,
+  max,
+  step,
+  display,
+  onChange,
+}: StripSliderProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <Label className="text-xs">{label}</Label>
+        <span className="font-mono">{display}</span>
+      </div>
+      <Slider
+        aria-label={ariaLabel}
+        value={[value]}
+        min={min}
+        max={max}
+        step={step}
+        onValueChange={([next]) => onChange(next)}
+      />
+    </div>
+  );
+}
+
+// The RMS level as a bar, with the held sample peak marked and written out
+function LevelMeter({
+  label,
+  reading,
+}: {
+  label: string;
+  reading?: MeterReading;
+}) {
+  const rms = reading && Number.isFinite(reading.rms) ? reading.rms : -Infinity;
+  const peak =
+    reading && Number.isFinite(reading.peak) ? reading.peak : -Infinity;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        role="meter"
+        aria-label={`${label} level`}
+        aria-valuemin={METER_FLOOR}
+        aria-valuemax={METER_CEILING}
+        aria-valuenow={Math.max(METER_FLOOR, Math.round(rms))}
+        className="relative h-2 flex-1 overflow-hidden rounded-full bg-muted"
+      >
+        <div
+          className="absolute inset-y-0 left-0 bg-primary"
+          style={{ width: `${meterPercent(rms)}%` }}
+        />
+        <div
+          className={`absolute inset-y-0 w-0.5 ${
+            peak > 0 ? "bg-destructive" : "bg-foreground"
+          }`}
+          style={{ left: `${meterPercent(peak)}%` }}
+        />
+      </div>
+      <span
+        className={`w-10 text-right font-mono text-xs ${
+          peak > 0 ? "text-destructive" : "text-muted-foreground"
+        }`}
+      >
+        {peak > METER_FLOOR ? peak.toFixed(0) : "-∞"}
+      </span>
+    </div>
+  );
+}
+
+// A pan position as the ends it leans to, e.g. "L30", "C" or "R100"
+function formatPan(pan: number): string {
+  const amount = Math.round(Math.abs(pan) * 100);
+  if (amount === 0) return "C";
+  return `${pan < 0 ? "L" : "R"}${amount}`;
+}
@@ -1,12 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen } from "@testing-library/react";
-import { fireEvent } from "@testing-library/dom";
+import { createEvent, fireEvent } from "@testing-library/dom";
 import MultiStaffNotation from "./multi-staff-notation";
 import type { Track, NoteDuration } from "@/lib/types";
 import { getInstrumentClef } from "@/lib/music-utils";
 
 // Mock the music-utils module
-vi.mock("@/lib/music-utils", () => ({
+vi.mock("@/lib/music-utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/music-utils")>()),
   getInstrumentClef: vi.fn((instrument) => {
     // Return treble clef for most instruments, bass for specific bass instruments
     const bassInstruments = ["cello", "bass", "tuba", "piano"];
@@ -231,4 +232,415 @@ describe("MultiStaffNotation", () => {
     // Check if the new key signature is displayed
     expect(screen.getByText("G major")).toBeInTheDocument();
   });
+
+  it("fills the gaps between notes with rests", () => {
+    const { container } = render(<MultiStaffNotation {...mockProps} />);
+
+    // Violin: quarter on step 0, half on step 4 -> a quarter rest on step 2,
+    // then a whole-measure rest for the empty second measure
+    const violinStaff = container.querySelectorAll(
+      'div[class*="relative w-full h-[180px]"]'
+    )[0];
+    const rests = violinStaff.querySelectorAll('[data-testid="filled-rest"]');
+    expect(
+      [...rests].map((rest) => rest.getAttribute("data-duration"))
+    ).toEqual(["quarter", "whole"]);
+  });
+
+  it("removes a placed rest when it is clicked", () => {
+    const onAddRest = vi.fn();
+    const tracks: Track[] = [
+      { ...mockTracks[0], rests: [{ step: 2, duration: "quarter" }] },
+    ];
+
+    render(
+      <MultiStaffNotation
+        {...mockProps}
+        tracks={tracks}
+        onAddRest={onAddRest}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId("placed-rest"));
+    expect(onAddRest).toHaveBeenCalledWith("track1", 2, "quarter");
+  });
+
+  it("places rests dropped from the rest palette", () => {
+    const onAddRest = vi.fn();
+    const { container } = render(
+      <MultiStaffNotation {...mockProps} onAddRest={onAddRest} />
+    );
+    const violinStaff = container.querySelectorAll(
+      'div[class*="relative w-full h-[180px]"]'
+    )[0];
+
+    // jsdom's DragEvent does not carry pointer coordinates, so set them here
+    const drop = createEvent.drop(violinStaff, {
+      dataTransfer: {
+        types: ["restduration"],
+        getData: vi.fn((type) => (type === "restDuration" ? "eighth" : "")),
+      },
+    });
+    Object.defineProperty(drop, "clientX", { value: 100 });
+    Object.defineProperty(drop, "clientY", { value: 60 });
+    fireEvent(violinStaff, drop);
+
+    expect(onAddRest).toHaveBeenCalled();
+    expect(onAddRest.mock.calls[0][2]).toBe("eighth");
+    expect(mockProps.onAddNote).not.toHaveBeenCalled();
+  });
+
+  it("draws dots, ties and tuplet brackets", () => {
+    const tracks: Track[] = [
+      {
+        ...mockTracks[0],
+        notes: [
+          {
+            step: 0,
+            pitch: "G4",
+            duration: "quarter",
+            dotted: true,
+            tie: true,
+          },
+          { step: 3, pitch: "G4", duration: "eighth" },
+          ...[0, 1, 2].map((index) => ({
+            step: 4 + (index * 2) / 3,
+            pitch: "A4",
+            duration: "eighth" as const,
+            tuplet: { actual: 3, normal: 2 },
+          })),
+        ],
+      },
+    ];
+
+    render(<MultiStaffNotation {...mockProps} tracks={tracks} />);
+
+    expect(screen.getAllByTestId("note-dot")).toHaveLength(1);
+    expect(screen.getAllByTestId("tie")).toHaveLength(1);
+    const brackets = screen.getAllByTestId("tuplet-bracket");
+    expect(brackets).toHaveLength(1);
+    expect(brackets[0].textContent).toBe("3");
+  });
+
+  it("draws dynamics, hairpins, articulations and slurs", () => {
+    const tracks: Track[] = [
+      {
+        ...mockTracks[0],
+        notes: [
+          { step: 0, pitch: "G4", dynamic: "p", slur: true },
+          { step: 2, pitch: "A4", articulations: ["staccato", "accent"] },
+          { step: 4, pitch: "B4", dynamic: "f", articulations: ["tenuto"] },
+        ],
+        hairpins: [{ type: "crescendo", start: 0, end: 4 }],
+      },
+    ];
+
+    render(<MultiStaffNotation {...mockProps} tracks={tracks} />);
+
+    expect(
+      screen.getAllByTestId("dynamic").map((marking) => marking.textContent)
+    ).toEqual(["p", "f"]);
+    expect(screen.getByTestId("hairpin")).toHaveAttribute(
+      "data-type",
+      "crescendo"
+    );
+    expect(
+      screen
+        .getAllByTestId("articulation")
+        .map((mark) => mark.getAttribute("data-articulation"))
+    ).toEqual(["staccato", "accent", "tenuto"]);
+    expect(screen.getAllByTestId("slur")).toHaveLength(1);
+  });
+
+  it("places triplet notes on their own grid within the step", () => {
+    const { container } = render(
+      <MultiStaffNotation
+        {...mockProps}
+        activeValue={{ duration: "eighth", tuplet: { actual: 3, normal: 2 } }}
+      />
+    );
+    const violinStaff = container.querySelectorAll(
+      'div[class*="relative w-full h-[180px]"]'
+    )[0];
+
+    // Steps are 50px wide, so triplet eighths start every 33⅓px
+    const drop = createEvent.drop(violinStaff, {
+      dataTransfer: { types: ["noteduration"], getData: vi.fn(() => "") },
+    });
+    Object.defineProperty(drop, "clientX", { value: 40 });
+    Object.defineProperty(drop, "clientY", { value: 60 });
+    fireEvent(violinStaff, drop);
+
+    expect(mockProps.onAddNote).toHaveBeenCalled();
+    expect(mockProps.onAddNote.mock.calls[0][1]).toBeCloseTo(2 / 3);
+    expect(mockProps.onAddNote.mock.calls[0][3]).toBe("eighth");
+  });
+
+  it("places barlines and digits for the chosen time signature", () => {
+    render(
+      <MultiStaffNotation
+        {...mockProps}
+        tracks={[mockTracks[0]]}
+        totalSteps={12}
+        timeSignature={{ numerator: 3, denominator: 4 }}
+      />
+    );
+
+    // 3/4 measures are six steps: barlines at steps 0, 6 and 12
+    expect(screen.getAllByTestId("barline")).toHaveLength(3);
+    expect(screen.getByTestId("time-signature").textContent).toBe("34");
+  });
+
+  it("numbers measures and widens the staff to keep steps readable", () => {
+    render(
+      <MultiStaffNotation
+        {...mockProps}
+        tracks={[mockTracks[0]]}
+        totalSteps={32}
+      />
+    );
+
+    expect(
+      screen
+        .getAllByTestId("measure-number")
+        .map((number) => number.textContent)
+    ).toEqual(["1", "2", "3", "4"]);
+    const content = screen.getByTestId("score-viewport")
+      .firstElementChild as HTMLElement;
+    expect(content.style.minWidth).toBe("1280px");
+  });
+
+  it("draws accidentals the key signature doesn't give", () => {
+    const tracks: Track[] = [
+      {
+        ...mockTracks[0],
+        notes: [
+          { step: 0, pitch: "F#4", duration: "quarter" },
+          { step: 2, pitch: "Bb4", duration: "quarter" },
+        ],
+      },
+    ];
+
+    render(
+      <MultiStaffNotation {...mockProps} tracks={tracks} keySignature="G" />
+    );
+
+    // F# is in G major already, so only the flat is drawn
+    const accidentals = screen.getAllByTestId("accidental");
+    expect(accidentals.map((accidental) => accidental.textContent)).toEqual([
+      "♭",
+    ]);
+  });
+
+  it("ignores drops with no pitch under them", () => {
+    const { container } = render(<MultiStaffNotation {...mockProps} />);
+    const violinStaff = container.querySelectorAll(
+      'div[class*="relative w-full h-[180px]"]'
+    )[0];
+
+    // Without coordinates the point falls on no line or space of the staff
+    const dataTransfer = { types: ["noteduration"], getData: vi.fn(() => "") };
+    fireEvent(violinStaff, createEvent.dragOver(violinStaff, { dataTransfer }));
+    fireEvent(violinStaff, createEvent.drop(violinStaff, { dataTransfer }));
+
+    expect(mockProps.onAddNote).not.toHaveBeenCalled();
+  });
+
+  it("sharpens notes dropped with Shift held", () => {
+    const { container } = render(<MultiStaffNotation {...mockProps} />);
+    const violinStaff = container.querySelectorAll(
+      'div[class*="relative w-full h-[180px]"]'
+    )[0];
+
+    const drop = createEvent.drop(violinStaff, {
+      dataTransfer: { types: ["noteduration"], getData: vi.fn(() => "") },
+    });
+    Object.defineProperty(drop, "clientX", { value: 100 });
+    Object.defineProperty(drop, "clientY", { value: 60 });
+    Object.defineProperty(drop, "shiftKey", { value: true });
+    fireEvent(violinStaff, drop);
+
+    expect(mockProps.onAddNote).toHaveBeenCalledWith(
+      "track1",
+      2,
+      "F#5",
+      "quarter"
+    );
+  });
+
+  it("spells dropped notes in the key unless given a natural", () => {
+    const drop = (accidental?: "natural") => {
+      const { container, unmount } = render(
+        <MultiStaffNotation
+          {...mockProps}
+          keySignature="G"
+          activeAccidental={accidental}
+        />
+      );
+      const violinStaff = container.querySelectorAll(
+        'div[class*="relative w-full h-[180px]"]'
+      )[0];
+      const event = createEvent.drop(violinStaff, {
+        dataTransfer: { types: ["noteduration"], getData: vi.fn(() => "") },
+      });
+      Object.defineProperty(event, "clientX", { value: 100 });
+      Object.defineProperty(event, "clientY", { value: 60 });
+      fireEvent(violinStaff, event);
+      unmount();
+    };
+
+    drop();
+    drop("natural");
+    expect(mockProps.onAddNote.mock.calls.map((call) => call[2])).toEqual([
+      "F#5",
+      "F5",
+    ]);
+  });
+
+  it("shows transposing instruments as written when asked", () => {
+    const tracks: Track[] = [
+      {
+        id: "clarinet",
+        instrument: "clarinet",
+        volume: 0.8,
+        muted: false,
+        notes: [{ step: 0, pitch: "C5", duration: "quarter" }],
+      },
+    ];
+    const { container } = render(
+      <MultiStaffNotation
+        {...mockProps}
+        tracks={tracks}
+        currentTrackId="clarinet"
+      />
+    );
+    const noteTop = () =>
+      (
+        container.querySelector(
+          'div[class*="absolute w-[24px] h-[24px]"]'
+        ) as HTMLElement
+      ).style.top;
+
+    // Concert C5 sits on the middle of the staff
+    expect(noteTop()).toBe("60px");
+    expect(screen.queryByTestId("part-transposition")).toBeNull();
+
+    // A B-flat clarinet reads it a tone higher, in D major
+    fireEvent.click(screen.getByRole("button", { name: "Transposed" }));
+    expect(noteTop()).toBe("52.5px");
+    expect(screen.getByTestId("part-transposition").textContent).toBe(
+      "in B♭, written in D"
+    );
+
+    // Notes dropped on the written part are stored at concert pitch
+    const staff = container.querySelector(
+      'div[class*="relative w-full h-[180px]"]'
+    )!;
+    const drop = createEvent.drop(staff, {
+      dataTransfer: { types: ["noteduration"], getData: vi.fn(() => "") },
+    });
+    Object.defineProperty(drop, "clientX", { value: 100 });
+    Object.defineProperty(drop, "clientY", { value: 60 });
+    fireEvent(staff, drop);
+    expect(mockProps.onAddNote).toHaveBeenCalledWith(
+      "clarinet",
+      2,
+      "E5",
+      "quarter"
+    );
+  });
+
+  it("highlights notes outside the instrument's range", () => {
+    const tracks: Track[] = [
+      {
+        id: "tuba",
+        instrument: "tuba",
+        volume: 0.8,
+        muted: false,
+        notes: [
+          { step: 0, pitch: "C3", duration: "quarter" },
+          { step: 2, pitch: "Eb4", duration: "quarter" },
+          { step: 4, pitch: "C6", duration: "quarter" },
+        ],
+      },
+    ];
+    const { container } = render(
+      <MultiStaffNotation
+        {...mockProps}
+        tracks={tracks}
+        currentTrackId="tuba"
+      />
+    );
+
+    const notes = container.querySelectorAll(
+      'div[class*="absolute w-[24px] h-[24px]"]'
+    );
+    expect([...notes].map((note) => note.getAttribute("data-range"))).toEqual([
+      "comfortable",
+      "playable",
+      "unplayable",
+    ]);
+  });
+
+  it("draws and places kit pieces on a percussion staff", () => {
+    const clef = vi.mocked(getInstrumentClef);
+    const original = clef.getMockImplementation();
+    clef.mockImplementation((instrument) =>
+      instrument === "drums" ? "percussion" : "treble"
+    );
+    const tracks: Track[] = [
+      {
+        id: "drums",
+        instrument: "drums",
+        volume: 0,
+        muted: false,
+        notes: [
+          { step: 0, pitch: "C2", duration: "quarter" },
+          { step: 0, pitch: "F#2", duration: "quarter" },
+        ],
+      },
+    ];
+
+    try {
+      const { container } = render(
+        <MultiStaffNotation
+          {...mockProps}
+          tracks={tracks}
+          currentTrackId="drums"
+          keySignature="D"
+        />
+      );
+
+      expect(screen.getByTestId("percussion-clef")).toBeInTheDocument();
+      expect(screen.queryAllByTestId("accidental")).toHaveLength(0);
+      const notes = container.querySelectorAll(
+        'div[class*="absolute w-[24px] h-[24px]"]'
+      );
+      expect([...notes].map((note) => note.getAttribute("title"))).toEqual([
+        "Kick",
+        "Closed hi-hat",
+      ]);
+      expect(notes[1].getAttribute("data-head")).toBe("cross");
+
+      // The middle line of the staff is the snare
+      const staff = container.querySelectorAll(
+        'div[class*="relative w-full h-[180px]"]'
+      )[0];
+      const drop = createEvent.drop(staff, {
+        dataTransfer: { types: ["noteduration"], getData: vi.fn(() => "") },
+      });
+      Object.defineProperty(drop, "clientX", { value: 100 });
+      Object.defineProperty(drop, "clientY", { value: 60 });
+      fireEvent(staff, drop);
+
+      expect(mockProps.onAddNote).toHaveBeenCalledWith(
+        "drums",
+        2,
+        "D2",
+        "quarter"
+      );
+    } finally {
+      clef.mockImplementation(original!);
+    }
+  });
 });
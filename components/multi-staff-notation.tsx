@@ -2,8 +2,51 @@
 
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
-import type { Note, Track, NoteDuration } from "@/lib/types";
-import { getInstrumentClef } from "@/lib/music-utils";
+import type {
+  Accidental,
+  Articulation,
+  Hairpin,
+  Note,
+  StaffAccidental,
+  Track,
+  NoteDuration,
+  NoteValue,
+  StaffRest,
+  TimeSignature,
+} from "@/lib/types";
+import {
+  applyAccidental,
+  concertPitch,
+  fillRests,
+  findOverlap,
+  fitsInScore,
+  getInstrumentClef,
+  KEY_SIGNATURES,
+  STEP_EPSILON,
+  beatSteps,
+  naturalPitch,
+  noteSteps,
+  overlaps,
+  spellInKey,
+  staffAccidentals,
+  stepsPerMeasure,
+  tieContinuation,
+  transposeKey,
+  tupletGroupSteps,
+  writtenPitch,
+} from "@/lib/music-utils";
+import {
+  getInstrument,
+  isPlayable,
+  kitPiece,
+  kitPieceOn,
+  rangeStatus,
+  type KitPiece,
+  type RangeStatus,
+} from "@/lib/instruments";
+import { slurContinuation } from "@/lib/dynamics";
+import { hasDragType, hasFiles } from "@/lib/utils";
+import RestSymbol from "./rest-symbol";
 
 interface MultiStaffNotationProps {
   tracks: Track[];
@@ -21,8 +64,26 @@ interface MultiStaffNotationProps {
   totalSteps: number;
   onSelectTrack: (trackId: string) => void;
   noteDuration: number;
+  // The value being dragged from the palette, used to preview where it fits
+  // and to place tuplet notes on their own grid
+  activeValue?: NoteValue;
+  // Places a rest, or removes the one already on that step
+  onAddRest?: (trackId: string, step: number, duration: NoteDuration) => void;
+  timeSignature?: TimeSignature;
+  // Accidental given to dropped notes unless a modifier key is held
+  activeAccidental?: Accidental;
 }
 
+// Articulation marks as drawn beside the note head
+const ARTICULATION_SYMBOLS: Record<Articulation, string> = {
+  staccato: "•",
+  accent: ">",
+  tenuto: "–",
+};
+
+// Dynamic markings and hairpins sit on this line below the staff
+const DYNAMICS_TOP = 150;
+
 // Map of note names to staff positions (0 = middle C, positive = above, negative = below)
 const NOTE_POSITIONS: Record<string, number> = {
   C2: -21,
@@ -109,25 +170,45 @@ const BASS_CLEF_PITCHES = [
   "C2",
 ];
 
-// Key signature accidentals
-const KEY_SIGNATURES: Record<string, { sharps: string[]; flats: string[] }> = {
-  C: { sharps: [], flats: [] },
-  G: { sharps: ["F"], flats: [] },
-  D: { sharps: ["F", "C"], flats: [] },
-  A: { sharps: ["F", "C", "G"], flats: [] },
-  E: { sharps: ["F", "C", "G", "D"], flats: [] },
-  B: { sharps: ["F", "C", "G", "D", "A"], flats: [] },
-  "F#": { sharps: ["F", "C", "G", "D", "A", "E"], flats: [] },
-  "C#": { sharps: ["F", "C", "G", "D", "A", "E", "B"], flats: [] },
-  F: { sharps: [], flats: ["B"] },
-  Bb: { sharps: [], flats: ["B", "E"] },
-  Eb: { sharps: [], flats: ["B", "E", "A"] },
-  Ab: { sharps: [], flats: ["B", "E", "A", "D"] },
-  Db: { sharps: [], flats: ["B", "E", "A", "D", "G"] },
-  Gb: { sharps: [], flats: ["B", "E", "A", "D", "G", "C"] },
-  Cb: { sharps: [], flats: ["B", "E", "A", "D", "G", "C", "F"] },
+// Glyphs drawn before note heads
+const ACCIDENTAL_SYMBOLS: Record<Accidental, string> = {
+  sharp: "♯",
+  flat: "♭",
+  natural: "♮",
 };
 
+// Background behind notes outside the comfortable range: amber while still
+// playable, red when the instrument can't play them at all
+const RANGE_HIGHLIGHTS: Record<RangeStatus, string> = {
+  comfortable: "",
+  playable: "bg-amber-300/60",
+  unplayable: "bg-destructive/40 ring-2 ring-destructive",
+};
+
+// Height of a pitch on the staff. Accidentals don't move a note off its line or space.
+const staffPosition = (pitch: string) =>
+  NOTE_POSITIONS[naturalPitch(pitch)] || 0;
+
+// The line or space nearest a height on the staff, named by its natural pitch
+const staffPitchAt = (y: number) => {
+  const position = Math.round((60 - y) / 7.5);
+  return `${"CDEFGAB"[((position % 7) + 7) % 7]}${5 + Math.floor(position / 7)}`;
+};
+
+// The accidental for a note being dropped: Shift for a sharp, Alt for a flat,
+// otherwise whatever is picked in the palette
+const droppedAccidental = (
+  e: React.DragEvent,
+  activeAccidental?: Accidental
+): Accidental | undefined => {
+  if (e.shiftKey) return "sharp";
+  if (e.altKey) return "flat";
+  return activeAccidental;
+};
+
+// Narrowest a step is drawn before the score scrolls sideways
+const MIN_STEP_WIDTH = 40;
+
 export default function MultiStaffNotation({
   tracks,
   currentTrackId,
@@ -139,21 +220,28 @@ export default function MultiStaffNotation({
   totalSteps,
   onSelectTrack,
   noteDuration,
+  activeValue = { duration: "quarter" },
+  onAddRest,
+  timeSignature = { numerator: 4, denominator: 4 },
+  activeAccidental,
 }: MultiStaffNotationProps) {
   const staffRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const measureSteps = stepsPerMeasure(timeSignature);
+  const beat = beatSteps(timeSignature);
   const [hoveredPosition, setHoveredPosition] = useState<{
     trackId: string;
     step: number;
     pitch: string;
+    blocked: boolean;
+    // The kit piece under the pointer on a percussion staff
+    label?: string;
   } | null>(null);
+  // Show the parts of transposing instruments as written instead of as they sound
+  const [showTransposed, setShowTransposed] = useState(false);
   const [staffDimensions, setStaffDimensions] = useState<
     Record<string, { width: number; height: number }>
   >({});
-  const [activeDuration, setActiveDuration] = useState<NoteDuration>("quarter");
-  const [timeSignature, setTimeSignature] = useState({
-    numerator: 4,
-    denominator: 4,
-  });
 
   // Calculate staff dimensions on mount and resize
   useEffect(() => {
@@ -182,27 +270,109 @@ export default function MultiStaffNotation({
     };
   }, [tracks]);
 
+  // Keep the playhead in view while a long score plays
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!isPlaying || !viewport) return;
+
+    const x = (currentStep / totalSteps) * viewport.scrollWidth;
+    const margin = viewport.clientWidth / 4;
+    if (
+      x < viewport.scrollLeft ||
+      x > viewport.scrollLeft + viewport.clientWidth - margin
+    ) {
+      viewport.scrollLeft = Math.max(0, x - margin);
+    }
+  }, [currentStep, isPlaying, totalSteps]);
+
+  // Semitones a track's part is written above concert pitch. Only transposing
+  // instruments have one, and only while written parts are shown.
+  const partShift = (trackId: string) => {
+    const track = tracks.find((t) => t.id === trackId);
+    if (!showTransposed || !track) return 0;
+    return getInstrument(track.instrument)?.transposition?.semitones ?? 0;
+  };
+
+  // The key signature a track's part is written in
+  const partKey = (trackId: string) =>
+    transposeKey(keySignature, partShift(trackId));
+
+  // The kit a percussion track's staff shows, one piece per line or space
+  const trackKit = (trackId: string) => {
+    const track = tracks.find((t) => t.id === trackId);
+    return track ? getInstrument(track.instrument)?.kit : undefined;
+  };
+
+  // Where a note is drawn on its track's staff: kit pieces on their own line or space
+  const drawnPitch = (trackId: string, pitch: string) => {
+    const kit = trackKit(trackId);
+    const piece = kit && kitPiece(kit, pitch);
+    return piece
+      ? piece.staff
+      : writtenPitch(pitch, partShift(trackId), keySignature);
+  };
+
+  // A dropped note follows the key signature unless it is given its own accidental
+  const spellDropped = (pitch: string, key: string, accidental?: Accidental) =>
+    accidental ? applyAccidental(pitch, accidental) : spellInKey(pitch, key);
+
+  // The step under a point on the staff. Tuplet notes snap to their own,
+  // finer grid; everything else starts on a step.
+  const stepAt = (x: number, staffWidth: number) => {
+    const stepWidth = staffWidth / totalSteps || 0;
+    const unit = activeValue.tuplet ? noteSteps(activeValue) : 1;
+    return Math.floor(x / (stepWidth * unit)) * unit;
+  };
+
   // Handle dropping a note on the staff
   const handleDrop = (e: React.DragEvent, trackId: string) => {
+    // Files dropped from the desktop are opened by the builder instead
+    if (hasFiles(e.dataTransfer)) return;
     e.preventDefault();
 
     const staffElement = staffRefs.current[trackId];
     if (!staffElement) return;
 
-    // Get the dropped note duration
-    const duration =
-      (e.dataTransfer.getData("noteDuration") as NoteDuration) ||
-      activeDuration;
-    if (!duration) return;
-
     // Calculate the step and pitch based on drop position
     const rect = staffElement.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
 
     // Calculate step (x position)
-    const stepWidth = staffDimensions[trackId]?.width / totalSteps || 0;
-    const step = Math.floor(x / stepWidth);
+    const step = stepAt(x, rect.width);
+
+    // Rests have no pitch, so only the step matters
+    if (hasDragType(e.dataTransfer, "restduration")) {
+      const restDuration = e.dataTransfer.getData(
+        "restDuration"
+      ) as NoteDuration;
+      if (restDuration && step >= 0 && step < totalSteps) {
+        onAddRest?.(trackId, step, restDuration);
+      }
+      setHoveredPosition(null);
+      return;
+    }
+
+    // Get the dropped note duration
+    const duration =
+      (e.dataTransfer.getData("noteDuration") as NoteDuration) ||
+      activeValue.duration;
+    if (!duration) return;
+
+    // On a percussion staff the height picks a kit piece rather than a pitch
+    const kit = trackKit(trackId);
+    if (kit) {
+      if (step >= 0 && step < totalSteps) {
+        onAddNote(
+          trackId,
+          step,
+          kitPieceOn(kit, staffPitchAt(y)).pitch,
+          duration
+        );
+      }
+      setHoveredPosition(null);
+      return;
+    }
 
     // Get the appropriate pitch list based on clef
     const track = tracks.find((t) => t.id === trackId);
@@ -214,7 +384,7 @@ export default function MultiStaffNotation({
     const pitchPosition = Math.round((y - 30) / 7.5);
 
     let pitch: string;
-    if (clef === "treble") {
+    if (clef !== "bass") {
       // In treble clef, the lines from bottom to top are E4, G4, B4, D5, F5
       // The spaces are F4, A4, C5, E5
       const pitchIndex = Math.min(
@@ -231,10 +401,25 @@ export default function MultiStaffNotation({
       );
       pitch = BASS_CLEF_PITCHES[pitchIndex];
     }
+    // A point with no pitch under it, such as one without coordinates, places nothing
+    if (!pitch) {
+      setHoveredPosition(null);
+      return;
+    }
+    pitch = spellDropped(
+      pitch,
+      partKey(trackId),
+      droppedAccidental(e, activeAccidental)
+    );
 
-    // Add the note
-    if (step >= 0 && step < totalSteps && pitch) {
-      onAddNote(trackId, step, pitch, duration);
+    // Add the note, at concert pitch if it was dropped on a written part
+    if (step >= 0 && step < totalSteps) {
+      onAddNote(
+        trackId,
+        step,
+        concertPitch(pitch, partShift(trackId), keySignature),
+        duration
+      );
     }
 
     setHoveredPosition(null);
@@ -242,6 +427,7 @@ export default function MultiStaffNotation({
 
   // Handle dragging over the staff
   const handleDragOver = (e: React.DragEvent, trackId: string) => {
+    if (hasFiles(e.dataTransfer)) return;
     e.preventDefault();
 
     const staffElement = staffRefs.current[trackId];
@@ -253,8 +439,7 @@ export default function MultiStaffNotation({
     const y = e.clientY - rect.top;
 
     // Calculate step (x position)
-    const stepWidth = staffDimensions[trackId]?.width / totalSteps || 0;
-    const step = Math.floor(x / stepWidth);
+    const step = stepAt(x, rect.width);
 
     // Get the appropriate pitch list based on clef
     const track = tracks.find((t) => t.id === trackId);
@@ -266,7 +451,7 @@ export default function MultiStaffNotation({
     const pitchPosition = Math.round((y - 30) / 7.5);
 
     let pitch: string;
-    if (clef === "treble") {
+    if (clef !== "bass") {
       // In treble clef, the lines from bottom to top are E4, G4, B4, D5, F5
       // The spaces are F4, A4, C5, E5
       const pitchIndex = Math.min(
@@ -283,8 +468,39 @@ export default function MultiStaffNotation({
       );
       pitch = BASS_CLEF_PITCHES[pitchIndex];
     }
+    // A point with no pitch under it, such as one without coordinates, places nothing
+    if (!pitch) {
+      setHoveredPosition(null);
+      return;
+    }
+    pitch = spellDropped(
+      pitch,
+      partKey(trackId),
+      droppedAccidental(e, activeAccidental)
+    );
+
+    // Kit pieces are previewed on their own line or space, and named
+    const kit = trackKit(trackId);
+    const piece = kit && kitPieceOn(kit, staffPitchAt(y));
+    if (piece) pitch = piece.staff;
+    const sounding = piece
+      ? piece.pitch
+      : concertPitch(pitch, partShift(trackId), keySignature);
+
+    // Show whether the dragged note would fit without overlapping its neighbours
+    // and is a pitch the instrument can play. A rest can't share any time with a
+    // note, not even its start.
+    const isRest = hasDragType(e.dataTransfer, "restduration");
+    const blocked =
+      !fitsInScore(step, activeValue, totalSteps) ||
+      (track
+        ? isRest
+          ? track.notes.some((note) => overlaps(step, activeValue, note))
+          : !!findOverlap(track.notes, step, activeValue) ||
+            !isPlayable(track.instrument, sounding)
+        : false);
 
-    setHoveredPosition({ trackId, step, pitch });
+    setHoveredPosition({ trackId, step, pitch, blocked, label: piece?.name });
   };
 
   // Handle clicking on a note to remove it
@@ -306,9 +522,188 @@ export default function MultiStaffNotation({
     return groupedNotes;
   };
 
+  // Horizontal centre of a note head: the middle of its first column,
+  // or of its own half of the column for notes shorter than a step
+  const noteHeadLeft = (step: number, value: NoteValue) =>
+    `${((step + Math.min(noteSteps(value), 1) / 2) / totalSteps) * 100}%`;
+
+  // Render a bar under the note head across every step the note lasts
+  const renderNoteSpan = (note: Note, trackId: string) => {
+    const top = 60 - staffPosition(drawnPitch(trackId, note.pitch)) * 7.5;
+
+    return (
+      <div
+        key={`span-${trackId}-${note.step}-${note.pitch}`}
+        className="absolute h-[4px] rounded-full bg-primary/20 pointer-events-none"
+        style={{
+          left: `${(note.step / totalSteps) * 100}%`,
+          width: `${(noteSteps(note) / totalSteps) * 100}%`,
+          top: `${top - 2}px`,
+        }}
+      />
+    );
+  };
+
+  // Render the arc from a tied note to the note it is held into
+  const renderTie = (note: Note, continuation: Note, trackId: string) => {
+    const top = 60 - staffPosition(drawnPitch(trackId, note.pitch)) * 7.5;
+    const start = note.step + Math.min(noteSteps(note), 1) / 2;
+    const end = continuation.step + Math.min(noteSteps(continuation), 1) / 2;
+
+    return (
+      <div
+        key={`tie-${trackId}-${note.step}-${note.pitch}`}
+        className="absolute h-[8px] border-b-2 border-black rounded-b-full pointer-events-none"
+        data-testid="tie"
+        style={{
+          left: `${(start / totalSteps) * 100}%`,
+          width: `${((end - start) / totalSteps) * 100}%`,
+          top: `${top + 6}px`,
+        }}
+      />
+    );
+  };
+
+  // Render the arc over a slurred note and the note it leads to
+  const renderSlur = (note: Note, continuation: Note, trackId: string) => {
+    const top = Math.min(
+      60 - staffPosition(drawnPitch(trackId, note.pitch)) * 7.5,
+      60 - staffPosition(drawnPitch(trackId, continuation.pitch)) * 7.5
+    );
+    const start = note.step + Math.min(noteSteps(note), 1) / 2;
+    const end = continuation.step + Math.min(noteSteps(continuation), 1) / 2;
+
+    return (
+      <div
+        key={`slur-${trackId}-${note.step}-${note.pitch}`}
+        className="absolute h-[10px] border-t-2 border-black rounded-t-full pointer-events-none"
+        data-testid="slur"
+        style={{
+          left: `${(start / totalSteps) * 100}%`,
+          width: `${((end - start) / totalSteps) * 100}%`,
+          top: `${top - 22}px`,
+        }}
+      />
+    );
+  };
+
+  // Render a hairpin as a wedge under the staff, opening for a crescendo
+  const renderHairpin = (hairpin: Hairpin, trackId: string) => (
+    <svg
+      key={`hairpin-${trackId}-${hairpin.start}-${hairpin.end}`}
+      className="absolute h-[12px] pointer-events-none"
+      data-testid="hairpin"
+      data-type={hairpin.type}
+      viewBox="0 0 100 12"
+      preserveAspectRatio="none"
+      style={{
+        left: `${((hairpin.start + 0.5) / totalSteps) * 100}%`,
+        width: `${((hairpin.end - hairpin.start - 0.5) / totalSteps) * 100}%`,
+        top: `${DYNAMICS_TOP - 6}px`,
+      }}
+    >
+      <polyline
+        points={
+          hairpin.type === "crescendo" ? "100,1 0,6 100,11" : "0,1 100,6 0,11"
+        }
+        fill="none"
+        stroke="black"
+        strokeWidth="1.5"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+
+  // Render a note's dynamic marking under the staff
+  const renderDynamic = (note: Note, trackId: string) => (
+    <span
+      key={`dynamic-${trackId}-${note.step}-${note.pitch}`}
+      className="absolute font-serif text-[15px] font-bold italic leading-none text-black pointer-events-none"
+      data-testid="dynamic"
+      style={{
+        left: noteHeadLeft(note.step, note),
+        top: `${DYNAMICS_TOP}px`,
+        transform: "translate(-50%, -50%)",
+      }}
+    >
+      {note.dynamic}
+    </span>
+  );
+
+  // Render a bracket with its count above each tuplet group
+  const renderTupletBrackets = (track: Track) => {
+    const groups = new Map<
+      string,
+      { start: number; length: number; actual: number }
+    >();
+    track.notes.forEach((note) => {
+      if (!note.tuplet) return;
+      const length = tupletGroupSteps(note);
+      const start = Math.floor(note.step / length + STEP_EPSILON) * length;
+      groups.set(`${start}-${length}-${note.tuplet.actual}`, {
+        start,
+        length,
+        actual: note.tuplet.actual,
+      });
+    });
+
+    return [...groups.entries()].map(([key, group]) => (
+      <div
+        key={`tuplet-${track.id}-${key}`}
+        className="absolute h-[6px] border-x border-t border-black pointer-events-none"
+        data-testid="tuplet-bracket"
+        style={{
+          left: `${(group.start / totalSteps) * 100}%`,
+          width: `${(group.length / totalSteps) * 100}%`,
+          top: "8px",
+        }}
+      >
+        <span className="absolute left-1/2 -top-[7px] -translate-x-1/2 bg-white dark:bg-slate-900 px-0.5 text-[10px] leading-none">
+          {group.actual}
+        </span>
+      </div>
+    ));
+  };
+
+  // Render a rest on the middle line. Rests the user placed can be clicked
+  // to remove them; the ones filling gaps are drawn fainter.
+  const renderRest = (rest: StaffRest, trackId: string) => {
+    const left = rest.fullMeasure
+      ? `${((rest.step + Math.min(measureSteps, totalSteps - rest.step) / 2) / totalSteps) * 100}%`
+      : noteHeadLeft(rest.step, rest);
+
+    return (
+      <div
+        key={`rest-${trackId}-${rest.step}-${rest.explicit}`}
+        className={`absolute w-[20px] h-[30px] flex items-center justify-center ${
+          rest.explicit
+            ? "cursor-pointer text-foreground"
+            : "pointer-events-none text-muted-foreground opacity-60"
+        }`}
+        data-testid={rest.explicit ? "placed-rest" : "filled-rest"}
+        data-duration={rest.duration}
+        style={{ left, top: "60px", transform: "translate(-50%, -50%)" }}
+        onClick={(e) => {
+          if (!rest.explicit) return;
+          e.stopPropagation();
+          onAddRest?.(trackId, rest.step, rest.duration);
+        }}
+      >
+        <RestSymbol duration={rest.duration} />
+      </div>
+    );
+  };
+
   // Render a note with the appropriate symbol based on duration
-  const renderNote = (note: Note, trackId: string, isCurrentStep: boolean) => {
-    const position = NOTE_POSITIONS[note.pitch] || 0;
+  const renderNote = (
+    note: Note,
+    trackId: string,
+    isCurrentStep: boolean,
+    accidental?: StaffAccidental,
+    range: RangeStatus = "comfortable",
+    piece?: KitPiece
+  ) => {
+    const position = staffPosition(drawnPitch(trackId, note.pitch));
     const top = 60 - position * 7.5; // 60px is middle C, each step is 7.5px
 
     // Determine if the stem should go up or down based on position
@@ -318,11 +713,22 @@ export default function MultiStaffNotation({
     return (
       <div
         key={`${trackId}-${note.step}-${note.pitch}`}
-        className={`absolute w-[24px] h-[24px] flex items-center justify-center cursor-pointer ${
+        className={`absolute w-[24px] h-[24px] flex items-center justify-center cursor-pointer rounded-full ${
           isCurrentStep ? "ring-2 ring-primary-foreground" : ""
-        }`}
+        } ${RANGE_HIGHLIGHTS[range]}`}
+        data-range={range}
+        data-head={piece?.head}
+        title={
+          range === "comfortable"
+            ? piece?.name
+            : `${note.pitch} is ${
+                range === "playable"
+                  ? "outside the comfortable range"
+                  : "out of range"
+              } for this instrument`
+        }
         style={{
-          left: `${((note.step + 0.5) / totalSteps) * 100}%`,
+          left: noteHeadLeft(note.step, note),
           top: `${top}px`,
           transform: "translate(-50%, -50%)",
         }}
@@ -331,7 +737,46 @@ export default function MultiStaffNotation({
           handleNoteClick(trackId, note.step, note.pitch);
         }}
       >
-        {renderNoteSymbol(note.duration || "quarter", stemDirection)}
+        {/* Notes without a duration play as eighths, so draw them that way */}
+        {piece?.head === "cross"
+          ? renderCrossNoteSymbol(note.duration || "eighth", stemDirection)
+          : renderNoteSymbol(note.duration || "eighth", stemDirection)}
+        {accidental && (
+          <span
+            className="absolute right-[20px] top-[2px] text-[16px] leading-none text-black"
+            data-testid="accidental"
+          >
+            {accidental.courtesy
+              ? `(${ACCIDENTAL_SYMBOLS[accidental.accidental]})`
+              : ACCIDENTAL_SYMBOLS[accidental.accidental]}
+          </span>
+        )}
+        {note.dotted && (
+          <span
+            className="absolute right-[-4px] top-[12px] h-[4px] w-[4px] rounded-full bg-black"
+            data-testid="note-dot"
+          />
+        )}
+        {/* Articulations go on the side of the head away from the stem */}
+        {note.articulations && note.articulations.length > 0 && (
+          <span
+            className={`absolute left-1/2 flex -translate-x-1/2 items-center gap-[2px] text-[13px] font-bold leading-none text-black ${
+              stemDirection === "up"
+                ? "top-[22px] flex-col"
+                : "bottom-[22px] flex-col-reverse"
+            }`}
+          >
+            {note.articulations.map((articulation) => (
+              <span
+                key={articulation}
+                data-testid="articulation"
+                data-articulation={articulation}
+              >
+                {ARTICULATION_SYMBOLS[articulation]}
+              </span>
+            ))}
+          </span>
+        )}
       </div>
     );
   };
@@ -616,6 +1061,69 @@ export default function MultiStaffNotation({
     );
   };
 
+  // Cymbals get a cross for a note head, stemmed and flagged like any other note
+  const renderCrossNoteSymbol = (
+    duration: NoteDuration,
+    stemDirection: "up" | "down"
+  ) => {
+    const up = stemDirection === "up";
+    const [x, y] = up ? [10, 16] : [14, 8];
+    const stemX = up ? 16 : 8;
+    const flags = duration === "eighth" ? 1 : duration === "sixteenth" ? 2 : 0;
+
+    return (
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox="0 0 24 24"
+        width="24"
+        height="24"
+      >
+        <path
+          d={`M${x - 4},${y - 4} L${x + 4},${y + 4} M${x + 4},${y - 4} L${x - 4},${y + 4}`}
+          stroke="black"
+          strokeWidth="1.5"
+        />
+        {duration !== "whole" && (
+          <line
+            x1={stemX}
+            y1={y}
+            x2={stemX}
+            y2={up ? 4 : 20}
+            stroke="black"
+            strokeWidth="1"
+          />
+        )}
+        {Array.from({ length: flags }, (_, i) => (
+          <path
+            key={i}
+            d={
+              up
+                ? `M16,${4 + i * 4} C19,${6 + i * 4} 22,${8 + i * 4} 22,${10 + i * 4}`
+                : `M8,${20 - i * 4} C5,${18 - i * 4} 2,${16 - i * 4} 2,${14 - i * 4}`
+            }
+            stroke="black"
+            strokeWidth="1"
+            fill="none"
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  // Render the percussion clef: two thick bars across the middle of the staff
+  const renderPercussionClef = () => (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 30 30"
+      width="30"
+      height="30"
+      data-testid="percussion-clef"
+    >
+      <rect x="9" y="0" width="4" height="30" fill="black" />
+      <rect x="17" y="0" width="4" height="30" fill="black" />
+    </svg>
+  );
+
   // Render the treble clef using the provided SVG
   const renderTrebleClef = () => (
     <svg
@@ -736,182 +1244,329 @@ export default function MultiStaffNotation({
     );
   };
 
-  // Render time signature
-  const renderTimeSignature = () => (
-    <div className="absolute left-[60px] top-[30px] h-[60px] flex flex-col items-center justify-center">
-      <svg
-        xmlns="http://www.w3.org/2000/svg"
-        viewBox="0 0 20 60"
-        width="20"
-        height="60"
+  // Render the time signature digits; two-digit numbers are set smaller to fit
+  const renderTimeSignature = () => {
+    const digits = [timeSignature.numerator, timeSignature.denominator];
+    const fontSize = digits.some((value) => value > 9) ? 18 : 24;
+
+    return (
+      <div
+        className="absolute left-[60px] top-[30px] h-[60px] flex flex-col items-center justify-center"
+        data-testid="time-signature"
       >
-        <text
-          x="10"
-          y="25"
-          fontSize="24"
-          fontFamily="serif"
-          textAnchor="middle"
-          dominantBaseline="middle"
-        >
-          4
-        </text>
-        <text
-          x="10"
-          y="55"
-          fontSize="24"
-          fontFamily="serif"
-          textAnchor="middle"
-          dominantBaseline="middle"
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 20 60"
+          width="20"
+          height="60"
         >
-          4
-        </text>
-      </svg>
-    </div>
-  );
+          {digits.map((value, index) => (
+            <text
+              key={index}
+              x="10"
+              y={index === 0 ? 25 : 55}
+              fontSize={fontSize}
+              fontFamily="serif"
+              textAnchor="middle"
+              dominantBaseline="middle"
+            >
+              {value}
+            </text>
+          ))}
+        </svg>
+      </div>
+    );
+  };
 
   return (
     <div className="w-full space-y-6">
       <div className="flex items-center mb-4">
         <h2 className="text-xl font-semibold">Orchestra Score</h2>
-        <div className="ml-auto text-sm text-muted-foreground">
-          {keySignature} {scale}
+        <div className="ml-auto flex items-center gap-3 text-sm text-muted-foreground">
+          {/* Transposing instruments can be read as written or as they sound */}
+          <div className="flex rounded-md border text-xs" role="group">
+            {[false, true].map((transposed) => (
+              <button
+                key={String(transposed)}
+                type="button"
+                className={`px-2 py-1 first:rounded-l-md last:rounded-r-md ${
+                  showTransposed === transposed
+                    ? "bg-primary text-primary-foreground"
+                    : "hover:bg-muted"
+                }`}
+                aria-pressed={showTransposed === transposed}
+                onClick={() => setShowTransposed(transposed)}
+              >
+                {transposed ? "Transposed" : "Concert pitch"}
+              </button>
+            ))}
+          </div>
+          <span>
+            {keySignature} {scale}
+          </span>
         </div>
       </div>
 
-      <div className="space-y-8">
-        {tracks.map((track) => {
-          const isCurrentTrack = track.id === currentTrackId;
-          const clef = getInstrumentClef(track.instrument);
+      {/* Long scores scroll sideways instead of squeezing every step into view */}
+      <div
+        className="overflow-x-auto"
+        ref={viewportRef}
+        data-testid="score-viewport"
+      >
+        <div
+          className="space-y-8"
+          style={{ minWidth: `${totalSteps * MIN_STEP_WIDTH}px` }}
+        >
+          {tracks.map((track) => {
+            const isCurrentTrack = track.id === currentTrackId;
+            const clef = getInstrumentClef(track.instrument);
+            const key = partKey(track.id);
+            const transposition = partShift(track.id)
+              ? getInstrument(track.instrument)?.transposition
+              : undefined;
+            const kit = trackKit(track.id);
+            // Accidentals depend on how the part is written. Kit pieces have none.
+            const written = track.notes.map((note) => ({
+              ...note,
+              pitch: drawnPitch(track.id, note.pitch),
+            }));
+            const accidentals = kit
+              ? new Map<Note, StaffAccidental>()
+              : staffAccidentals(written, key, timeSignature);
 
-          return (
-            <div
-              key={track.id}
-              className={`p-4 rounded-md border transition-colors ${
-                isCurrentTrack
-                  ? "border-primary/50 bg-primary/5"
-                  : "hover:bg-muted/50"
-              }`}
-              onClick={() => onSelectTrack(track.id)}
-            >
-              <div className="flex items-center mb-2">
-                <h3 className="text-lg font-medium capitalize">
-                  {track.instrument}
-                </h3>
-                <span className="ml-2 text-xs bg-muted px-2 py-0.5 rounded">
-                  {clef} clef
-                </span>
-                {track.muted && (
+            return (
+              <div
+                key={track.id}
+                className={`p-4 rounded-md border transition-colors ${
+                  isCurrentTrack
+                    ? "border-primary/50 bg-primary/5"
+                    : "hover:bg-muted/50"
+                }`}
+                onClick={() => onSelectTrack(track.id)}
+              >
+                <div className="sticky left-0 flex w-fit items-center mb-2">
+                  <h3 className="text-lg font-medium capitalize">
+                    {track.instrument}
+                  </h3>
                   <span className="ml-2 text-xs bg-muted px-2 py-0.5 rounded">
-                    Muted
+                    {clef} clef
                   </span>
-                )}
-              </div>
+                  {transposition && (
+                    <span
+                      className="ml-2 text-xs bg-muted px-2 py-0.5 rounded"
+                      data-testid="part-transposition"
+                    >
+                      {transposition.label}, written in {key}
+                    </span>
+                  )}
+                  {track.muted && (
+                    <span className="ml-2 text-xs bg-muted px-2 py-0.5 rounded">
+                      Muted
+                    </span>
+                  )}
+                </div>
 
-              <div
-                className="relative w-full h-[180px] bg-white dark:bg-slate-900 border rounded-md overflow-hidden"
-                ref={(el) => {
-                  if (el) staffRefs.current[track.id] = el;
-                }}
-                onDragOver={(e) => handleDragOver(e, track.id)}
-                onDrop={(e) => handleDrop(e, track.id)}
-                onDragLeave={() => setHoveredPosition(null)}
-              >
-                {/* Staff lines */}
-                <div className="absolute w-full h-full">
-                  {[0, 1, 2, 3, 4].map((i) => (
-                    <div
-                      key={`line-${track.id}-${i}`}
-                      className="absolute w-full h-[1px] bg-gray-400 dark:bg-gray-600"
-                      style={{ top: `${30 + i * 15}px` }}
-                    />
-                  ))}
+                <div
+                  className="relative w-full h-[180px] bg-white dark:bg-slate-900 border rounded-md overflow-hidden"
+                  ref={(el) => {
+                    if (el) staffRefs.current[track.id] = el;
+                  }}
+                  onDragOver={(e) => handleDragOver(e, track.id)}
+                  onDrop={(e) => handleDrop(e, track.id)}
+                  onDragLeave={() => setHoveredPosition(null)}
+                >
+                  {/* Staff lines */}
+                  <div className="absolute w-full h-full">
+                    {[0, 1, 2, 3, 4].map((i) => (
+                      <div
+                        key={`line-${track.id}-${i}`}
+                        className="absolute w-full h-[1px] bg-gray-400 dark:bg-gray-600"
+                        style={{ top: `${30 + i * 15}px` }}
+                      />
+                    ))}
 
-                  {/* Ledger lines (above and below staff) */}
-                  {[5, 6, 7].map((i) => (
-                    <div
-                      key={`ledger-above-${track.id}-${i}`}
-                      className="absolute w-full h-[1px] bg-gray-300 dark:bg-gray-700"
-                      style={{ top: `${30 - i * 15}px` }}
-                    />
-                  ))}
+                    {/* Ledger lines (above and below staff) */}
+                    {[5, 6, 7].map((i) => (
+                      <div
+                        key={`ledger-above-${track.id}-${i}`}
+                        className="absolute w-full h-[1px] bg-gray-300 dark:bg-gray-700"
+                        style={{ top: `${30 - i * 15}px` }}
+                      />
+                    ))}
 
-                  {[1, 2, 3].map((i) => (
-                    <div
-                      key={`ledger-below-${track.id}-${i}`}
-                      className="absolute w-full h-[1px] bg-gray-300 dark:bg-gray-700"
-                      style={{ top: `${30 + (4 + i) * 15}px` }}
-                    />
-                  ))}
-                </div>
+                    {[1, 2, 3].map((i) => (
+                      <div
+                        key={`ledger-below-${track.id}-${i}`}
+                        className="absolute w-full h-[1px] bg-gray-300 dark:bg-gray-700"
+                        style={{ top: `${30 + (4 + i) * 15}px` }}
+                      />
+                    ))}
+                  </div>
 
-                {/* Clef */}
-                <div className="absolute left-2 top-[15px] h-[90px] flex items-center">
-                  {clef === "bass" ? renderBassClef() : renderTrebleClef()}
-                </div>
+                  {/* Clef */}
+                  <div className="absolute left-2 top-[15px] h-[90px] flex items-center">
+                    {clef === "percussion"
+                      ? renderPercussionClef()
+                      : clef === "bass"
+                        ? renderBassClef()
+                        : renderTrebleClef()}
+                  </div>
+
+                  {/* Key Signature */}
+                  {clef !== "percussion" && renderKeySignature(clef, key)}
 
-                {/* Key Signature */}
-                {renderKeySignature(clef, keySignature)}
+                  {/* Time Signature */}
+                  {renderTimeSignature()}
 
-                {/* Time Signature */}
-                {renderTimeSignature()}
+                  {/* Measure numbers */}
+                  {Array.from(
+                    { length: Math.ceil(totalSteps / measureSteps) },
+                    (_, measure) => (
+                      <span
+                        key={`measure-number-${track.id}-${measure}`}
+                        className="absolute top-[2px] pl-1 text-[10px] text-muted-foreground pointer-events-none"
+                        data-testid="measure-number"
+                        style={{
+                          left: `${((measure * measureSteps) / totalSteps) * 100}%`,
+                        }}
+                      >
+                        {measure + 1}
+                      </span>
+                    )
+                  )}
 
-                {/* Measure lines */}
-                <div className="absolute w-full h-full">
-                  {Array.from({ length: totalSteps + 1 }, (_, i) => (
+                  {/* Barlines, then fainter lines for beats and steps */}
+                  <div className="absolute w-full h-full">
+                    {Array.from({ length: totalSteps + 1 }, (_, i) => (
+                      <div
+                        key={`measure-${track.id}-${i}`}
+                        data-testid={
+                          i % measureSteps === 0 ? "barline" : undefined
+                        }
+                        className={`absolute h-[90px] w-[1px] ${
+                          i % measureSteps === 0
+                            ? "bg-gray-700 dark:bg-gray-300"
+                            : i % beat === 0
+                              ? "bg-gray-400 dark:bg-gray-600"
+                              : "bg-gray-200 dark:bg-gray-800"
+                        }`}
+                        style={{
+                          left: `${(i / totalSteps) * 100}%`,
+                          top: "15px",
+                        }}
+                      />
+                    ))}
+                  </div>
+
+                  {/* Current step indicator */}
+                  {isPlaying && (
                     <div
-                      key={`measure-${track.id}-${i}`}
-                      className={`absolute h-[90px] w-[1px] ${
-                        i % 4 === 0
-                          ? "bg-gray-500 dark:bg-gray-500"
-                          : "bg-gray-300 dark:bg-gray-700"
-                      }`}
+                      className="absolute h-[90px] w-[2px] bg-primary"
                       style={{
-                        left: `${(i / totalSteps) * 100}%`,
+                        left: `${((currentStep + 0.5) / totalSteps) * 100}%`,
                         top: "15px",
                       }}
                     />
-                  ))}
-                </div>
+                  )}
+
+                  {/* Rests */}
+                  {fillRests(track, totalSteps, timeSignature).map((rest) =>
+                    renderRest(rest, track.id)
+                  )}
+
+                  {/* Note lengths */}
+                  {track.notes.map((note) => renderNoteSpan(note, track.id))}
+
+                  {/* Ties, slurs and tuplet brackets */}
+                  {track.notes.map((note) => {
+                    const continuation = tieContinuation(track.notes, note);
+                    return (
+                      continuation && renderTie(note, continuation, track.id)
+                    );
+                  })}
+                  {track.notes.map((note) => {
+                    const continuation = slurContinuation(track.notes, note);
+                    return (
+                      continuation && renderSlur(note, continuation, track.id)
+                    );
+                  })}
+                  {renderTupletBrackets(track)}
+
+                  {/* Dynamics and hairpins below the staff */}
+                  {track.notes
+                    .filter((note) => note.dynamic)
+                    .map((note) => renderDynamic(note, track.id))}
+                  {track.hairpins?.map((hairpin) =>
+                    renderHairpin(hairpin, track.id)
+                  )}
 
-                {/* Current step indicator */}
-                {isPlaying && (
-                  <div
-                    className="absolute h-[90px] w-[2px] bg-primary"
-                    style={{
-                      left: `${((currentStep + 0.5) / totalSteps) * 100}%`,
-                      top: "15px",
-                    }}
-                  />
-                )}
-
-                {/* Notes */}
-                {track.notes.map((note) =>
-                  renderNote(
-                    note,
-                    track.id,
-                    currentStep === note.step && isPlaying
-                  )
-                )}
-
-                {/* Hover indicator for drag and drop */}
-                {hoveredPosition && hoveredPosition.trackId === track.id && (
-                  <div
-                    className="absolute w-[20px] h-[20px] bg-primary/50 rounded-full"
-                    style={{
-                      left: `${
-                        ((hoveredPosition.step + 0.5) / totalSteps) * 100
-                      }%`,
-                      top: `${
-                        60 - (NOTE_POSITIONS[hoveredPosition.pitch] || 0) * 7.5
-                      }px`,
-                      transform: "translate(-50%, -50%)",
-                    }}
-                  />
-                )}
+                  {/* Notes, with the accidentals the key and measure call for */}
+                  {track.notes.map((note, index) =>
+                    renderNote(
+                      note,
+                      track.id,
+                      currentStep === Math.floor(note.step) && isPlaying,
+                      accidentals.get(written[index]),
+                      rangeStatus(track.instrument, note.pitch),
+                      kit && kitPiece(kit, note.pitch)
+                    )
+                  )}
+
+                  {/* Hover indicator for drag and drop */}
+                  {hoveredPosition && hoveredPosition.trackId === track.id && (
+                    <>
+                      <div
+                        className={`absolute h-[4px] rounded-full pointer-events-none ${
+                          hoveredPosition.blocked
+                            ? "bg-destructive/40"
+                            : "bg-primary/30"
+                        }`}
+                        style={{
+                          left: `${(hoveredPosition.step / totalSteps) * 100}%`,
+                          width: `${(noteSteps(activeValue) / totalSteps) * 100}%`,
+                          top: `${
+                            58 - staffPosition(hoveredPosition.pitch) * 7.5
+                          }px`,
+                        }}
+                      />
+                      <div
+                        className={`absolute w-[20px] h-[20px] rounded-full ${
+                          hoveredPosition.blocked
+                            ? "bg-destructive/50"
+                            : "bg-primary/50"
+                        }`}
+                        style={{
+                          left: noteHeadLeft(hoveredPosition.step, activeValue),
+                          top: `${
+                            60 - staffPosition(hoveredPosition.pitch) * 7.5
+                          }px`,
+                          transform: "translate(-50%, -50%)",
+                        }}
+                      />
+                      {hoveredPosition.label && (
+                        <span
+                          className="absolute ml-3 rounded bg-background/90 px-1 text-[10px] pointer-events-none"
+                          data-testid="kit-piece-label"
+                          style={{
+                            left: noteHeadLeft(
+                              hoveredPosition.step,
+                              activeValue
+                            ),
+                            top: `${
+                              52 - staffPosition(hoveredPosition.pitch) * 7.5
+                            }px`,
+                          }}
+                        >
+                          {hoveredPosition.label}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </div>
               </div>
-            </div>
-          );
-        })}
+            );
+          })}
+        </div>
       </div>
     </div>
   );
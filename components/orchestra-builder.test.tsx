@@ -23,6 +23,8 @@ vi.mock("tone", () => {
     Destination: {
       volume: { value: 0 },
     },
+    getDestination: vi.fn(() => ({})),
+    connectSeries: vi.fn(),
     Sequence: class MockSequence {
       constructor(callback, steps, subdivision) {
         this.callback = callback;
@@ -36,6 +38,7 @@ vi.mock("tone", () => {
     Synth: class MockSynth {
       constructor() {}
       toDestination = () => this;
+      connect = () => this;
       triggerAttackRelease = vi.fn();
       dispose = vi.fn();
       releaseAll = vi.fn();
@@ -46,11 +49,47 @@ vi.mock("tone", () => {
         this.synthType = synthType;
       }
       toDestination = () => this;
+      connect = () => this;
+      get = () => ({ envelope: { attack: 0.005 } });
+      set = vi.fn();
+      toSeconds = (time: number) => time;
       triggerAttackRelease = vi.fn();
       dispose = vi.fn();
       releaseAll = vi.fn();
       volume = { value: 0 };
     },
+    Volume: class MockVolume {
+      volume = { value: 0 };
+      connect = () => this;
+      fan = () => this;
+      dispose = vi.fn();
+    },
+    PanVol: class MockPanVol {
+      volume = { value: 0 };
+      pan = { value: 0 };
+      mute = false;
+      connect = () => this;
+      fan = () => this;
+      dispose = vi.fn();
+    },
+    Gain: class MockGain {
+      gain = { value: 0 };
+      connect = () => this;
+      dispose = vi.fn();
+    },
+    Reverb: class MockReverb {
+      ready = Promise.resolve();
+      connect = () => this;
+      dispose = vi.fn();
+    },
+    Meter: class MockMeter {
+      getValue = () => -Infinity;
+      dispose = vi.fn();
+    },
+    Analyser: class MockAnalyser {
+      getValue = () => new Float32Array(0);
+      dispose = vi.fn();
+    },
     AMSynth: class MockAMSynth {},
     FMSynth: class MockFMSynth {},
     MonoSynth: class MockMonoSynth {},
@@ -179,6 +218,16 @@ vi.mock("lucide-react", () => ({
   Music: () => <div data-testid="music-icon">Music</div>,
   SkipBack: () => <div data-testid="skip-back-icon">SkipBack</div>,
   Volume2: () => <div data-testid="volume-icon">Volume</div>,
+  FolderOpen: () => <div data-testid="folder-open-icon">Open</div>,
+  FileMusic: () => <div data-testid="file-music-icon">FileMusic</div>,
+  FileCode: () => <div data-testid="file-code-icon">FileCode</div>,
+  FileAudio: () => <div data-testid="file-audio-icon">FileAudio</div>,
+  Undo2: () => <div data-testid="undo-icon">Undo2</div>,
+  Redo2: () => <div data-testid="redo-icon">Redo2</div>,
+  Library: () => <div data-testid="library-icon">Library</div>,
+  FolderPlus: () => <div data-testid="folder-plus-icon">FolderPlus</div>,
+  ChevronUp: () => <div data-testid="chevron-up-icon">ChevronUp</div>,
+  ChevronDown: () => <div data-testid="chevron-down-icon">ChevronDown</div>,
 }));
 
 describe("OrchestraBuilder Component", () => {
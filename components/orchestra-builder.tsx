@@ -1,18 +1,36 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Button } from "@/components/ui/button";
+import { Button, buttonVariants } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import {
   Play,
   Pause,
@@ -22,29 +40,202 @@ import {
   Music,
   SkipBack,
   Volume2,
+  FolderOpen,
+  FileMusic,
+  FileCode,
+  FileAudio,
+  Undo2,
+  Redo2,
+  Library,
+  FolderPlus,
 } from "lucide-react";
+import Link from "next/link";
 import * as Tone from "tone";
 import MultiStaffNotation from "./multi-staff-notation";
-import type { InstrumentType, Note, Track, NoteDuration } from "@/lib/types";
+import DrumGrid from "./drum-grid";
+import EffectsChain from "./effects-chain";
+import MixerPanel, { type MixerLevels } from "./mixer-panel";
+import RangeReport from "./range-report";
+import RestSymbol from "./rest-symbol";
+import type {
+  Accidental,
+  Articulation,
+  Composition,
+  Dynamic,
+  Hairpin,
+  InstrumentType,
+  Note,
+  Track,
+  TrackEffect,
+  NoteDuration,
+  NoteValue,
+  ScoreSnapshot,
+} from "@/lib/types";
+import {
+  CompositionImportError,
+  parseComposition,
+  serializeComposition,
+} from "@/lib/composition";
+import {
+  KEY_SIGNATURES,
+  STEP_EPSILON,
+  TRIPLET,
+  deleteSteps,
+  findOverlap,
+  fitsInScore,
+  insertSteps,
+  isPitched,
+  noteSteps,
+  noteValueName,
+  overlaps,
+  keyDistance,
+  resizeForTimeSignature,
+  respellForKey,
+  transposeTracks,
+  type Transposition,
+  resolveOverlaps,
+  stepsPerMeasure,
+  tieContinuation,
+} from "@/lib/music-utils";
+import {
+  INSTRUMENT_FAMILIES,
+  INSTRUMENTS,
+  describeRange,
+  getInstrument,
+  isPlayable,
+  rangeViolations,
+} from "@/lib/instruments";
+import { exportMidi, importMidi } from "@/lib/midi";
+import { exportMusicXml, importMusicXml } from "@/lib/musicxml";
+import { downloadBlob, hasFiles } from "@/lib/utils";
+import { MixBus, TrackVoice, playStep, renderComposition } from "@/lib/audio";
+import { MAX_VOLUME, MIN_VOLUME, isAudible, toggleSolo } from "@/lib/mixer";
+import { ARTICULATIONS, DYNAMICS, slurContinuation } from "@/lib/dynamics";
+import { loadSamples, type SampleLoadProgress } from "@/lib/samples";
+import { encodeWav, type WavBitDepth } from "@/lib/wav";
+import {
+  createHistory,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from "@/lib/history";
+import {
+  AUTOSAVE_DELAY_MS,
+  createProject,
+  getProject,
+  hasUnsavedChanges,
+  loadSession,
+  saveProject,
+  saveSession,
+  type Project,
+  type Session,
+} from "@/lib/storage";
+
+// Which notes a transposition moves
+type TransposeScope = "measure" | "track" | "score";
+
+interface OrchestraBuilderProps {
+  // Library project to open instead of the last session
+  projectId?: string;
+}
 
-export default function OrchestraBuilder() {
+export default function OrchestraBuilder({
+  projectId,
+}: OrchestraBuilderProps = {}) {
   const [tracks, setTracks] = useState<Track[]>([
     { id: "1", instrument: "piano", notes: [], volume: 0, muted: false },
   ]);
   const [currentTrackId, setCurrentTrackId] = useState("1");
   const [isPlaying, setIsPlaying] = useState(false);
   const [bpm, setBpm] = useState(120);
+  const [masterVolume, setMasterVolume] = useState(0);
   const [key, setKey] = useState("C");
   const [scale, setScale] = useState("major");
   const [currentStep, setCurrentStep] = useState(0);
   const [totalSteps, setTotalSteps] = useState(16);
+  // The measure the insert and delete buttons act on, counted from 0
+  const [selectedMeasure, setSelectedMeasure] = useState(0);
   const [activeDuration, setActiveDuration] = useState<NoteDuration>("quarter");
+  // Modifiers applied to notes as they are placed
+  const [activeDotted, setActiveDotted] = useState(false);
+  const [activeTriplet, setActiveTriplet] = useState(false);
+  const [tieMode, setTieMode] = useState(false);
+  // Expression given to notes as they are placed. A dynamic marking is placed once.
+  const [activeArticulations, setActiveArticulations] = useState<
+    Articulation[]
+  >([]);
+  const [slurMode, setSlurMode] = useState(false);
+  const [activeDynamic, setActiveDynamic] = useState<Dynamic | null>(null);
+  const [activeVelocity, setActiveVelocity] = useState<number | null>(null);
+  const [activeAccidental, setActiveAccidental] = useState<Accidental | null>(
+    null
+  );
   const [timeSignature, setTimeSignature] = useState({
     numerator: 4,
     denominator: 4,
   });
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(16);
+  const [renderLoops, setRenderLoops] = useState(1);
+  const [releaseTail, setReleaseTail] = useState(2);
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [placementError, setPlacementError] = useState<string | null>(null);
+  const [transposeMode, setTransposeMode] =
+    useState<Transposition["mode"]>("chromatic");
+  const [transposeAmount, setTransposeAmount] = useState(2);
+  const [transposeScope, setTransposeScope] = useState<TransposeScope>("track");
+  // Notes the last transposition pushed outside their instrument's range
+  const [rangeWarning, setRangeWarning] = useState<string | null>(null);
+  // A key change waiting for the user to say whether existing notes follow it
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  // The rest being dragged from the rest palette, for the staff's drop preview
+  const [draggedRest, setDraggedRest] = useState<NoteDuration | null>(null);
+  const [history, setHistory] = useState(createHistory<ScoreSnapshot>());
+  // The library project being edited, if the score belongs to one
+  const [project, setProject] = useState<Project | null>(null);
+  // When the score was last edited, and last opened, exported or saved to its project
+  const [lastEditedAt, setLastEditedAt] = useState<number | null>(null);
+  const [documentSavedAt, setDocumentSavedAt] = useState<number | null>(null);
+  // Autosave stays off until the previous session has been restored or declined
+  const [sessionReady, setSessionReady] = useState(false);
+  const [recoverableSession, setRecoverableSession] = useState<Session | null>(
+    null
+  );
+  const [sampleProgress, setSampleProgress] =
+    useState<SampleLoadProgress | null>(null);
+  // Bumped when recordings finish loading so the voices are rebuilt from them
+  const [samplesVersion, setSamplesVersion] = useState(0);
   const sequencerRef = useRef<any>(null);
-  const synthsRef = useRef<Record<string, any>>({});
+  const synthsRef = useRef<Record<string, TrackVoice>>({});
+  // The master fader and shared reverb every track plays into, made with the first voice
+  const busRef = useRef<MixBus | null>(null);
+  // The score as of the last render, read by the playing sequence so edits are heard
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const createTrackVoice = (track: Track) => {
+    busRef.current ??= new MixBus(masterVolume);
+    return new TrackVoice(track, busRef.current).mix(
+      track,
+      isAudible(track, tracks)
+    );
+  };
+
+  // Only the instrument and effects shape a track's voice. Mixer settings are
+  // applied to the running voices, so moving a fader doesn't stop playback.
+  const voicesKey = JSON.stringify(
+    tracks.map(({ id, instrument, effects }) => [id, instrument, effects])
+  );
+
+  useEffect(() => {
+    return () => {
+      busRef.current?.dispose();
+      busRef.current = null;
+    };
+  }, []);
 
   // Initialize Tone.js
   useEffect(() => {
@@ -57,54 +248,7 @@ export default function OrchestraBuilder() {
           `Creating synth for track ${track.id} (${track.instrument})`
         );
 
-        // Use different synth types based on instrument category
-        let synth;
-
-        switch (track.instrument) {
-          case "piano":
-          case "harpsichord":
-          case "organ":
-          case "synthesizer":
-            synth = new Tone.PolySynth(Tone.Synth).toDestination();
-            break;
-          case "violin":
-          case "viola":
-          case "cello":
-          case "guitar":
-          case "harp":
-            synth = new Tone.PolySynth(Tone.AMSynth).toDestination();
-            break;
-          case "flute":
-          case "clarinet":
-          case "oboe":
-          case "bassoon":
-            synth = new Tone.PolySynth(Tone.FMSynth).toDestination();
-            break;
-          case "trumpet":
-          case "trombone":
-          case "french horn":
-          case "tuba":
-            synth = new Tone.PolySynth(Tone.MonoSynth).toDestination();
-            break;
-          case "drums":
-          case "timpani":
-          case "xylophone":
-          case "marimba":
-            synth = new Tone.PolySynth(Tone.MembraneSynth).toDestination();
-            break;
-          default:
-            synth = new Tone.PolySynth(Tone.Synth).toDestination();
-        }
-
-        synth.volume.value = track.volume;
-        synthsRef.current[track.id] = synth;
-      }
-    });
-
-    // Update synth volumes
-    tracks.forEach((track) => {
-      if (synthsRef.current[track.id]) {
-        synthsRef.current[track.id].volume.value = track.volume;
+        synthsRef.current[track.id] = createTrackVoice(track);
       }
     });
 
@@ -140,13 +284,45 @@ export default function OrchestraBuilder() {
       synthsRef.current = {};
       sequencerRef.current = null;
     };
-  }, [tracks]); // Only re-run when tracks change
+  }, [voicesKey, samplesVersion]); // Only re-run when the voices or their samples change
+
+  // Follow the mixer: faders, pans, sends, mutes and solos
+  useEffect(() => {
+    tracks.forEach((track) =>
+      synthsRef.current[track.id]?.mix(track, isAudible(track, tracks))
+    );
+  }, [tracks]);
+
+  useEffect(() => {
+    if (busRef.current) busRef.current.volume.value = masterVolume;
+  }, [masterVolume]);
+
+  // Load the recordings of the score's instruments. Tracks play from their synths
+  // until then, and from any instrument whose recordings are missing.
+  const scoreInstruments = [...new Set(tracks.map((track) => track.instrument))]
+    .sort()
+    .join("|");
+  useEffect(() => {
+    loadSamples(scoreInstruments.split("|"), (progress) =>
+      setSampleProgress(progress.loaded < progress.total ? progress : null)
+    ).then((loaded) => {
+      if (loaded.length > 0) setSamplesVersion((version) => version + 1);
+    });
+  }, [scoreInstruments]);
 
   // Update tempo
   useEffect(() => {
     Tone.Transport.bpm.value = bpm;
   }, [bpm]);
 
+  // Measures ("1m") follow the time signature
+  useEffect(() => {
+    Tone.Transport.timeSignature = [
+      timeSignature.numerator,
+      timeSignature.denominator,
+    ];
+  }, [timeSignature]);
+
   // Handle play/pause
   const togglePlayback = async () => {
     try {
@@ -177,9 +353,7 @@ export default function OrchestraBuilder() {
           console.log("Some synths are missing, recreating them");
           tracks.forEach((track) => {
             if (!synthsRef.current[track.id]) {
-              const synth = new Tone.PolySynth(Tone.Synth).toDestination();
-              synth.volume.value = track.volume;
-              synthsRef.current[track.id] = synth;
+              synthsRef.current[track.id] = createTrackVoice(track);
             }
           });
         }
@@ -187,8 +361,9 @@ export default function OrchestraBuilder() {
         // Recreate sequence each time to ensure latest notes are used
         createSequence();
 
-        // Set the loop points and start from beginning
-        Tone.Transport.setLoopPoints(0, `${totalSteps}*8n`);
+        // Loop over the whole measures of the score and start from beginning
+        const measures = Math.ceil(totalSteps / stepsPerMeasure(timeSignature));
+        Tone.Transport.setLoopPoints(0, `${measures}m`);
         Tone.Transport.loop = true;
         Tone.Transport.position = 0;
 
@@ -225,65 +400,13 @@ export default function OrchestraBuilder() {
       (time, step) => {
         setCurrentStep(step);
 
-        // Play notes for each track at this step
-        tracks.forEach((track) => {
-          if (!track.muted) {
-            const notesToPlay = track.notes.filter((note) => {
-              // Check if the note should be played at this step
-              // For longer durations, we only trigger at the start step
-              return note.step === step;
-            });
-
-            if (notesToPlay.length > 0 && synthsRef.current[track.id]) {
-              try {
-                const synth = synthsRef.current[track.id];
-
-                // Skip if synth is not available
-                if (
-                  !synth ||
-                  typeof synth.triggerAttackRelease !== "function"
-                ) {
-                  console.warn(
-                    `Synth for track ${track.id} is not available or was disposed`
-                  );
-                  return;
-                }
-
-                notesToPlay.forEach((note) => {
-                  // Convert duration to Tone.js format
-                  let duration;
-                  switch (note.duration) {
-                    case "whole":
-                      duration = "1n";
-                      break;
-                    case "half":
-                      duration = "2n";
-                      break;
-                    case "quarter":
-                      duration = "4n";
-                      break;
-                    case "eighth":
-                      duration = "8n";
-                      break;
-                    case "sixteenth":
-                      duration = "16n";
-                      break;
-                    default:
-                      duration = "8n";
-                  }
-
-                  // Make sure we're using the correct format for Tone.js
-                  synth.triggerAttackRelease(note.pitch, duration, time);
-                });
-              } catch (error) {
-                console.error(
-                  `Error playing notes for track ${track.id}:`,
-                  error
-                );
-              }
-            }
-          }
-        });
+        playStep(
+          tracksRef.current,
+          synthsRef.current,
+          step,
+          time,
+          Tone.Time("8n").toSeconds()
+        );
       },
       Array.from({ length: totalSteps }, (_, i) => i),
       "8n"
@@ -293,18 +416,112 @@ export default function OrchestraBuilder() {
     sequencerRef.current = seq;
   };
 
+  const scoreSnapshot = (): ScoreSnapshot => ({
+    tracks,
+    bpm,
+    masterVolume,
+    key,
+    scale,
+    timeSignature,
+    totalSteps,
+  });
+
+  const applySnapshot = (snapshot: ScoreSnapshot) => {
+    setTracks(snapshot.tracks);
+    setBpm(snapshot.bpm);
+    setMasterVolume(snapshot.masterVolume ?? 0);
+    setKey(snapshot.key);
+    setScale(snapshot.scale);
+    setTimeSignature(snapshot.timeSignature);
+    setTotalSteps(snapshot.totalSteps);
+
+    // Keep the selected track unless the snapshot no longer has it
+    if (!snapshot.tracks.some((track) => track.id === currentTrackId)) {
+      setCurrentTrackId(snapshot.tracks[0].id);
+    }
+  };
+
+  // Apply a score edit and record it so it can be undone.
+  // Edits that share a group (e.g. one slider drag) are undone together.
+  const commitEdit = (
+    label: string,
+    changes: Partial<ScoreSnapshot>,
+    group?: string
+  ) => {
+    const before = scoreSnapshot();
+    const after = { ...before, ...changes };
+    setHistory((current) =>
+      recordCommand(current, {
+        label,
+        group,
+        before,
+        after,
+        time: Date.now(),
+      })
+    );
+    applySnapshot(after);
+    setLastEditedAt(Date.now());
+  };
+
+  const undo = () => {
+    const result = undoCommand(history);
+    if (!result) return;
+    setHistory(result.history);
+    applySnapshot(result.command.before);
+    setLastEditedAt(Date.now());
+  };
+
+  const redo = () => {
+    const result = redoCommand(history);
+    if (!result) return;
+    setHistory(result.history);
+    applySnapshot(result.command.after);
+    setLastEditedAt(Date.now());
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   const addTrack = () => {
-    const newTrackId = (tracks.length + 1).toString();
-    setTracks([
-      ...tracks,
-      {
-        id: newTrackId,
-        instrument: "piano",
-        notes: [],
-        volume: 0,
-        muted: false,
-      },
-    ]);
+    // Imported files can have any ids, so pick one past the highest numeric id
+    const newTrackId = (
+      Math.max(0, ...tracks.map((track) => Number(track.id) || 0)) + 1
+    ).toString();
+    commitEdit("Add track", {
+      tracks: [
+        ...tracks,
+        {
+          id: newTrackId,
+          instrument: "piano",
+          notes: [],
+          volume: 0,
+          muted: false,
+        },
+      ],
+    });
     setCurrentTrackId(newTrackId);
   };
 
@@ -325,7 +542,9 @@ export default function OrchestraBuilder() {
       }
     }
 
-    setTracks(tracks.filter((track) => track.id !== id));
+    commitEdit("Remove track", {
+      tracks: tracks.filter((track) => track.id !== id),
+    });
 
     // If we're removing the current track, select another one
     if (currentTrackId === id) {
@@ -347,63 +566,46 @@ export default function OrchestraBuilder() {
     }
 
     // Update the track
-    setTracks(
-      tracks.map((track) =>
+    commitEdit("Change instrument", {
+      tracks: tracks.map((track) =>
         track.id === id ? { ...track, instrument } : track
-      )
-    );
-
-    // Create a new synth with the appropriate type
-    let synth;
-    switch (instrument) {
-      case "piano":
-      case "harpsichord":
-      case "organ":
-      case "synthesizer":
-        synth = new Tone.PolySynth(Tone.Synth).toDestination();
-        break;
-      case "violin":
-      case "viola":
-      case "cello":
-      case "guitar":
-      case "harp":
-        synth = new Tone.PolySynth(Tone.AMSynth).toDestination();
-        break;
-      case "flute":
-      case "clarinet":
-      case "oboe":
-      case "bassoon":
-        synth = new Tone.PolySynth(Tone.FMSynth).toDestination();
-        break;
-      case "trumpet":
-      case "trombone":
-      case "french horn":
-      case "tuba":
-        synth = new Tone.PolySynth(Tone.MonoSynth).toDestination();
-        break;
-      case "drums":
-      case "timpani":
-      case "xylophone":
-      case "marimba":
-        synth = new Tone.PolySynth(Tone.MembraneSynth).toDestination();
-        break;
-      default:
-        synth = new Tone.PolySynth(Tone.Synth).toDestination();
-    }
+      ),
+    });
 
-    // Get the volume from the track
+    // Create a new synth with the appropriate type, through the track's mixer channel
     const track = tracks.find((t) => t.id === id);
     if (track) {
-      synth.volume.value = track.volume;
+      synthsRef.current[id] = createTrackVoice({ ...track, instrument });
     }
+  };
 
-    // Store the new synth
-    synthsRef.current[id] = synth;
+  // Effects are rebuilt with the track's voice, so edits are heard right away
+  const updateTrackEffects = (
+    id: string,
+    effects: TrackEffect[],
+    label: string,
+    group?: string
+  ) => {
+    commitEdit(
+      label,
+      {
+        tracks: tracks.map((track) =>
+          track.id === id ? { ...track, effects } : track
+        ),
+      },
+      group && `${group}:${id}`
+    );
   };
 
   const updateTrackVolume = (id: string, volume: number) => {
-    setTracks(
-      tracks.map((track) => (track.id === id ? { ...track, volume } : track))
+    commitEdit(
+      "Change volume",
+      {
+        tracks: tracks.map((track) =>
+          track.id === id ? { ...track, volume } : track
+        ),
+      },
+      `volume:${id}`
     );
 
     // Update the synth volume in real-time
@@ -412,86 +614,686 @@ export default function OrchestraBuilder() {
     }
   };
 
+  const updateTrackPan = (id: string, pan: number) => {
+    commitEdit(
+      "Change pan",
+      {
+        tracks: tracks.map((track) =>
+          track.id === id ? { ...track, pan } : track
+        ),
+      },
+      `pan:${id}`
+    );
+  };
+
+  const updateTrackSend = (id: string, reverbSend: number) => {
+    commitEdit(
+      "Change reverb send",
+      {
+        tracks: tracks.map((track) =>
+          track.id === id ? { ...track, reverbSend } : track
+        ),
+      },
+      `send:${id}`
+    );
+  };
+
+  const toggleTrackSolo = (id: string, add: boolean) => {
+    commitEdit("Toggle solo", { tracks: toggleSolo(tracks, id, add) });
+  };
+
+  // What each channel's meter reads now, for the mixer
+  const readLevels = (): MixerLevels => ({
+    tracks: Object.fromEntries(
+      Object.entries(synthsRef.current).map(([id, synth]) => [
+        id,
+        synth.meter.getValue(),
+      ])
+    ),
+    master: busRef.current?.meter.getValue() ?? {
+      rms: -Infinity,
+      peak: -Infinity,
+    },
+  });
+
+  const updateMasterVolume = (volume: number) => {
+    commitEdit("Change master volume", { masterVolume: volume }, "master");
+  };
+
   const toggleTrackMute = (id: string) => {
-    setTracks(
-      tracks.map((track) =>
+    commitEdit("Toggle mute", {
+      tracks: tracks.map((track) =>
         track.id === id ? { ...track, muted: !track.muted } : track
-      )
-    );
+      ),
+    });
+  };
+
+  // The note value placed from the palette, with its modifiers applied
+  const activeValue: NoteValue = {
+    duration: activeDuration,
+    ...(activeDotted && { dotted: true }),
+    ...(activeTriplet && { tuplet: TRIPLET }),
+  };
+
+  // The dynamics and articulations given to notes as they are placed
+  const activeExpression: Partial<Note> = {
+    ...(activeArticulations.length > 0 && {
+      articulations: activeArticulations,
+    }),
+    ...(activeDynamic && { dynamic: activeDynamic }),
+    ...(activeVelocity !== null && { velocity: activeVelocity }),
   };
 
+  // Kit tracks can also be edited on a step grid while selected
+  const currentTrack = tracks.find((track) => track.id === currentTrackId);
+  const currentKit =
+    currentTrack && getInstrument(currentTrack.instrument)?.kit;
+
   const addNote = (
     trackId: string,
     step: number,
     pitch: string,
-    duration: NoteDuration = activeDuration
+    duration: NoteDuration = activeDuration,
+    value: NoteValue = { ...activeValue, duration }
   ) => {
     const track = tracks.find((t) => t.id === trackId);
     if (!track) return;
 
     // Check if note already exists at this step and pitch
-    const noteExists = track.notes.some(
+    const existing = track.notes.find(
       (note) => note.step === step && note.pitch === pitch
     );
 
-    if (noteExists) {
-      // Remove the note if it exists
-      setTracks(
-        tracks.map((t) =>
+    if (existing) {
+      // Remove the note if it exists, along with any tie into it
+      commitEdit("Remove note", {
+        tracks: tracks.map((t) =>
           t.id === trackId
             ? {
                 ...t,
-                notes: t.notes.filter(
-                  (note) => !(note.step === step && note.pitch === pitch)
-                ),
+                notes: t.notes
+                  .filter((note) => note !== existing)
+                  .map((note) =>
+                    tieContinuation(t.notes, note) === existing
+                      ? { ...note, tie: undefined }
+                      : note
+                  )
+                  .map((note) =>
+                    slurContinuation(t.notes, note) === existing
+                      ? { ...note, slur: undefined }
+                      : note
+                  ),
               }
             : t
-        )
-      );
+        ),
+      });
     } else {
-      // Add the note if it doesn't exist
-      const newNote: Note = { step, pitch, duration };
-      setTracks(
-        tracks.map((t) =>
-          t.id === trackId ? { ...t, notes: [...t.notes, newNote] } : t
-        )
+      const name = noteValueName(value);
+
+      // Refuse pitches the instrument can't play
+      const instrument = getInstrument(track.instrument);
+      if (instrument && !isPlayable(instrument.id, pitch)) {
+        setPlacementError(
+          `${pitch} is out of range for the ${instrument.name.toLowerCase()} (${describeRange(
+            instrument.range.playable
+          )}).`
+        );
+        return;
+      }
+
+      // Refuse notes that would run past the score or into another note
+      if (!fitsInScore(step, value, totalSteps)) {
+        setPlacementError(
+          `A ${name} note on step ${Math.floor(step) + 1} would run past the end of the score.`
+        );
+        return;
+      }
+      const overlap = findOverlap(track.notes, step, value);
+      if (overlap) {
+        setPlacementError(
+          `A ${name} note on step ${Math.floor(step) + 1} would overlap the ${overlap.pitch} on step ${Math.floor(overlap.step) + 1}.`
+        );
+        return;
+      }
+      setPlacementError(null);
+
+      // In tie mode, hold the previous note of this pitch into the new one
+      // when it ends exactly where the new note starts
+      const tiedFrom = tieMode
+        ? track.notes.find(
+            (note) =>
+              note.pitch === pitch &&
+              Math.abs(note.step + noteSteps(note) - step) < STEP_EPSILON
+          )
+        : undefined;
+
+      // In slur mode, slur the note ending where the new one starts into it
+      const slurredFrom = slurMode
+        ? track.notes.find(
+            (note) =>
+              Math.abs(note.step + noteSteps(note) - step) < STEP_EPSILON
+          )
+        : undefined;
+
+      // Add the note if it doesn't exist, replacing any rests it covers
+      const newNote: Note = { step, pitch, ...value, ...activeExpression };
+      commitEdit(
+        tiedFrom
+          ? "Add tied note"
+          : slurredFrom
+            ? "Add slurred note"
+            : "Add note",
+        {
+          tracks: tracks.map((t) =>
+            t.id === trackId
+              ? {
+                  ...t,
+                  notes: [
+                    ...t.notes.map((note) =>
+                      note === tiedFrom || note === slurredFrom
+                        ? {
+                            ...note,
+                            ...(note === tiedFrom && { tie: true }),
+                            ...(note === slurredFrom && { slur: true }),
+                          }
+                        : note
+                    ),
+                    newNote,
+                  ],
+                  ...(t.rests && {
+                    rests: t.rests.filter(
+                      (rest) => !overlaps(step, value, rest)
+                    ),
+                  }),
+                }
+              : t
+          ),
+        }
       );
+      // A dynamic marking is written once, where the music changes
+      setActiveDynamic(null);
     }
   };
 
-  const clearTrack = (trackId: string) => {
-    setTracks(
-      tracks.map((track) =>
-        track.id === trackId ? { ...track, notes: [] } : track
-      )
+  const addRest = (trackId: string, step: number, duration: NoteDuration) => {
+    const track = tracks.find((t) => t.id === trackId);
+    if (!track) return;
+    const rests = track.rests ?? [];
+
+    // Dropping or clicking on a placed rest removes it
+    if (rests.some((rest) => rest.step === step)) {
+      setPlacementError(null);
+      commitEdit("Remove rest", {
+        tracks: tracks.map((t) =>
+          t.id === trackId
+            ? { ...t, rests: rests.filter((rest) => rest.step !== step) }
+            : t
+        ),
+      });
+      return;
+    }
+
+    if (!fitsInScore(step, { duration }, totalSteps)) {
+      setPlacementError(
+        `A ${duration} rest on step ${step + 1} would run past the end of the score.`
+      );
+      return;
+    }
+    const clash = track.notes.find((note) =>
+      overlaps(step, { duration }, note)
     );
+    if (clash) {
+      setPlacementError(
+        `A ${duration} rest on step ${step + 1} would overlap the ${clash.pitch} on step ${Math.floor(clash.step) + 1}.`
+      );
+      return;
+    }
+    setPlacementError(null);
+
+    // A new rest replaces any placed rests it covers
+    commitEdit("Add rest", {
+      tracks: tracks.map((t) =>
+        t.id === trackId
+          ? {
+              ...t,
+              rests: [
+                ...rests.filter((rest) => !overlaps(step, { duration }, rest)),
+                { step, duration },
+              ],
+            }
+          : t
+      ),
+    });
   };
 
-  const exportMusic = () => {
-    const musicData = {
+  // How many notes a re-spelled copy of the tracks changes
+  const countRespelled = (respelled: Track[]) =>
+    respelled.reduce(
+      (count, track, index) =>
+        count +
+        track.notes.filter(
+          (note, noteIndex) => note !== tracks[index].notes[noteIndex]
+        ).length,
+      0
+    );
+  const respelledTracks = pendingKey
+    ? respellForKey(tracks, key, pendingKey)
+    : tracks;
+  const respelledCount = countRespelled(respelledTracks);
+
+  // Change the key, first asking whether the notes should be re-spelled for the
+  // new key signature or transposed into the new key
+  const changeKey = (value: string) => {
+    if (value === key) return;
+    if (tracks.some((track) => track.notes.length > 0)) {
+      setPendingKey(value);
+    } else {
+      commitEdit("Change key", { key: value });
+    }
+  };
+
+  const measureSteps = stepsPerMeasure(timeSignature);
+  const measureCount = Math.ceil(totalSteps / measureSteps);
+  // The selection may point past the end after a delete or undo
+  const editedMeasure = Math.min(selectedMeasure, measureCount - 1);
+
+  // Transpose the selected measure of the current track, the current track or
+  // every track, then warn about notes moved out of their instrument's range
+  const transpose = (
+    transposition: Transposition,
+    scope: TransposeScope,
+    label = "Transpose",
+    changes: Partial<ScoreSnapshot> = {}
+  ) => {
+    const start = editedMeasure * measureSteps;
+    // Kit tracks are never transposed, so their notes are never out of range for it
+    const include = (track: Track, note: Note) =>
+      isPitched(track) &&
+      (scope === "score" ||
+        (track.id === currentTrackId &&
+          (scope === "track" ||
+            (note.step >= start && note.step < start + measureSteps))));
+    const transposed = transposeTracks(
       tracks,
-      bpm,
-      key,
+      transposition,
+      changes.key ?? key,
       scale,
-      timeSignature,
-    };
+      include
+    );
+    commitEdit(label, { ...changes, tracks: transposed });
 
-    const blob = new Blob([JSON.stringify(musicData)], {
-      type: "application/json",
+    const outside = rangeViolations(transposed).filter(
+      ({ track, note, status }) =>
+        status === "unplayable" && include(track, note)
+    );
+    setRangeWarning(
+      outside.length > 0
+        ? `${outside.length} transposed ${
+            outside.length === 1 ? "note is" : "notes are"
+          } outside the instrument's range: ${outside
+            .slice(0, 3)
+            .map(
+              ({ track, note }) =>
+                `${note.pitch} on ${track.instrument} (step ${Math.floor(note.step) + 1})`
+            )
+            .join(", ")}${outside.length > 3 ? ", …" : ""}.`
+        : null
+    );
+  };
+
+  // Add an empty measure before the given one (or at the end), moving later notes along
+  const insertMeasure = (index: number) => {
+    commitEdit(index >= measureCount ? "Add measure" : "Insert measure", {
+      tracks: insertSteps(tracks, index * measureSteps, measureSteps),
+      totalSteps: totalSteps + measureSteps,
     });
-    const url = URL.createObjectURL(blob);
+  };
 
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `orchestra-composition-${new Date()
+  // Remove a measure with everything in it and close the gap
+  const deleteMeasure = (index: number) => {
+    if (measureCount <= 1) return;
+    commitEdit("Delete measure", {
+      tracks: deleteSteps(tracks, index * measureSteps, measureSteps),
+      totalSteps: totalSteps - measureSteps,
+    });
+  };
+
+  const clearTrack = (trackId: string) => {
+    commitEdit("Clear track", {
+      tracks: tracks.map((track) =>
+        track.id === trackId
+          ? { ...track, notes: [], rests: [], hairpins: [] }
+          : track
+      ),
+    });
+  };
+
+  // Put a hairpin across a measure of the current track, or take it away if it is already there
+  const toggleHairpin = (type: Hairpin["type"], measure: number) => {
+    const start = measure * measureSteps;
+    const end = Math.min(start + measureSteps, totalSteps);
+    const hairpins = currentTrack?.hairpins ?? [];
+    const existing = hairpins.find(
+      (hairpin) => hairpin.start === start && hairpin.end === end
+    );
+    const others = hairpins.filter((hairpin) => hairpin !== existing);
+
+    commitEdit(existing?.type === type ? `Remove ${type}` : `Add ${type}`, {
+      tracks: tracks.map((track) =>
+        track.id === currentTrackId
+          ? {
+              ...track,
+              hairpins:
+                existing?.type === type
+                  ? others
+                  : [...others, { type, start, end }],
+            }
+          : track
+      ),
+    });
+  };
+
+  const currentComposition = (): Composition => ({
+    tracks,
+    bpm,
+    masterVolume,
+    key,
+    scale,
+    timeSignature,
+    totalSteps,
+  });
+
+  const exportFileName = (extension: string) =>
+    `orchestra-composition-${new Date()
       .toISOString()
-      .slice(0, 10)}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+      .slice(0, 10)}.${extension}`;
+
+  const exportMusic = () => {
+    const blob = new Blob([serializeComposition(currentComposition())], {
+      type: "application/json",
+    });
+    downloadBlob(blob, exportFileName("json"));
+    setDocumentSavedAt(Date.now());
+  };
+
+  const exportMidiFile = () => {
+    const blob = new Blob([exportMidi(currentComposition())], {
+      type: "audio/midi",
+    });
+    downloadBlob(blob, exportFileName("mid"));
+  };
+
+  const exportMusicXmlFile = () => {
+    const blob = new Blob([exportMusicXml(currentComposition())], {
+      type: "application/vnd.recordare.musicxml+xml",
+    });
+    downloadBlob(blob, exportFileName("musicxml"));
+  };
+
+  const renderWavFile = async () => {
+    setIsRendering(true);
+    setRenderError(null);
+    try {
+      const rendered = await renderComposition(currentComposition(), {
+        loops: renderLoops,
+        tailSeconds: releaseTail,
+      });
+      const audio = rendered.get();
+      if (!audio) throw new Error("Offline render produced no audio");
+
+      const channels = Array.from({ length: audio.numberOfChannels }, (_, i) =>
+        audio.getChannelData(i)
+      );
+      const blob = new Blob(
+        [encodeWav(channels, audio.sampleRate, wavBitDepth)],
+        { type: "audio/wav" }
+      );
+      downloadBlob(blob, exportFileName("wav"));
+    } catch (error) {
+      console.error("Error rendering WAV:", error);
+      setRenderError("The score could not be rendered to WAV.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  // Load a composition into the builder, returning notes about anything that had to change
+  const loadComposition = (composition: Composition): string[] => {
+    // Stop playback and drop the old synths so they are rebuilt for the new tracks
+    if (Tone.Transport.state !== "stopped") {
+      Tone.Transport.stop();
+    }
+    setIsPlaying(false);
+    setCurrentStep(0);
+
+    if (sequencerRef.current) {
+      sequencerRef.current.dispose();
+      sequencerRef.current = null;
+    }
+
+    Object.entries(synthsRef.current).forEach(([id, synth]) => {
+      try {
+        synth.releaseAll();
+        synth.dispose();
+      } catch (error) {
+        console.error(`Error disposing synth for track ${id}:`, error);
+      }
+    });
+    synthsRef.current = {};
+
+    // Playback loops over whole measures, so round the score up to the barline
+    const measureSteps = stepsPerMeasure(composition.timeSignature);
+    const scoreSteps =
+      Math.ceil(composition.totalSteps / measureSteps) * measureSteps;
+
+    // Overlapping notes in one voice can't be drawn or played apart, so shorten them
+    let shortened = 0;
+    const resolvedTracks = composition.tracks.map((track) => {
+      const resolved = resolveOverlaps(track.notes, scoreSteps);
+      shortened += resolved.shortened;
+      return { ...track, notes: resolved.notes };
+    });
+
+    setTracks(resolvedTracks);
+    setCurrentTrackId(composition.tracks[0].id);
+    setBpm(composition.bpm);
+    setMasterVolume(composition.masterVolume ?? 0);
+    setKey(composition.key);
+    setScale(composition.scale);
+    setTimeSignature(composition.timeSignature);
+    setTotalSteps(scoreSteps);
+    // A newly opened piece starts with a fresh history
+    setHistory(createHistory<ScoreSnapshot>());
+    setLastEditedAt(null);
+    setDocumentSavedAt(Date.now());
+    // An opened file is a new document, not the library project
+    setProject(null);
+    setPlacementError(null);
+
+    return shortened > 0
+      ? [
+          `${shortened} overlapping note${shortened === 1 ? " was" : "s were"} shortened to end where the next note starts.`,
+        ]
+      : [];
+  };
+
+  const openProject = (opened: Project) => {
+    setImportWarnings(loadComposition(opened.composition));
+    setProject(opened);
+    setDocumentSavedAt(opened.updatedAt);
+    setRecoverableSession(null);
+    setSessionReady(true);
   };
 
+  const restoreSession = (session: Session, sessionProject: Project | null) => {
+    setImportWarnings(loadComposition(session.composition));
+    setProject(sessionProject);
+    setLastEditedAt(session.savedAt);
+    setDocumentSavedAt(session.documentSavedAt);
+    setRecoverableSession(null);
+    setSessionReady(true);
+  };
+
+  const discardSession = () => {
+    // The next autosave replaces the old session with the current score
+    if (projectId && project) {
+      openProject(project);
+      return;
+    }
+    setProject(null);
+    setRecoverableSession(null);
+    setSessionReady(true);
+  };
+
+  const saveToLibrary = async () => {
+    try {
+      const created = await createProject(
+        "Untitled project",
+        currentComposition()
+      );
+      setProject(created);
+      setDocumentSavedAt(created.updatedAt);
+    } catch (error) {
+      console.error("Error saving to the library:", error);
+      setImportError("The score could not be saved to the library.");
+    }
+  };
+
+  const openComposition = async (file: File) => {
+    try {
+      let composition: Composition;
+      let warnings: string[] = [];
+
+      if (/\.midi?$/i.test(file.name)) {
+        composition = importMidi(new Uint8Array(await file.arrayBuffer()));
+      } else if (/\.mxl$/i.test(file.name)) {
+        throw new CompositionImportError(
+          "Compressed MusicXML (.mxl) is not supported. Please export uncompressed .musicxml instead."
+        );
+      } else if (/\.(musicxml|xml)$/i.test(file.name)) {
+        ({ composition, warnings } = importMusicXml(await file.text()));
+      } else {
+        composition = parseComposition(await file.text());
+      }
+
+      const notices = loadComposition(composition);
+      setImportError(null);
+      setImportWarnings([...warnings, ...notices]);
+    } catch (error) {
+      setImportWarnings([]);
+      if (error instanceof CompositionImportError) {
+        setImportError(`Could not open ${file.name}: ${error.message}`);
+      } else {
+        console.error("Error opening composition:", error);
+        setImportError(`Could not open ${file.name}.`);
+      }
+    }
+  };
+
+  // Restore the last session on load, asking first if it holds unsaved edits
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      const session = await loadSession();
+
+      if (projectId) {
+        const opened = await getProject(projectId);
+        if (cancelled) return;
+        if (!opened) {
+          setImportError("That project is no longer in the library.");
+        } else if (
+          session?.projectId === opened.id &&
+          session.savedAt !== null &&
+          session.savedAt > opened.updatedAt
+        ) {
+          // The session holds edits to this project that never reached it
+          setProject(opened);
+          setRecoverableSession(session);
+          return;
+        } else {
+          openProject(opened);
+          return;
+        }
+      }
+
+      const sessionProject = session?.projectId
+        ? await getProject(session.projectId)
+        : null;
+      if (cancelled) return;
+      if (!session) {
+        setSessionReady(true);
+      } else if (hasUnsavedChanges(session)) {
+        setProject(sessionProject);
+        setRecoverableSession(session);
+      } else {
+        restoreSession(session, sessionProject);
+      }
+    };
+
+    restore().catch((error) => {
+      console.error("Could not load the saved session:", error);
+      if (!cancelled) setSessionReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave the score once edits pause
+  useEffect(() => {
+    if (!sessionReady) return;
+
+    const timeout = setTimeout(() => {
+      const composition = currentComposition();
+      saveSession({
+        composition,
+        projectId: project?.id ?? null,
+        savedAt: lastEditedAt,
+        documentSavedAt,
+      }).catch((error) => console.error("Autosave failed:", error));
+
+      // Write new edits through to the open project
+      if (
+        project &&
+        lastEditedAt !== null &&
+        (documentSavedAt === null || lastEditedAt > documentSavedAt)
+      ) {
+        const updated = { ...project, composition, updatedAt: lastEditedAt };
+        saveProject(updated)
+          .then(() => {
+            setProject(updated);
+            setDocumentSavedAt(lastEditedAt);
+          })
+          .catch((error) => console.error("Saving the project failed:", error));
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [
+    sessionReady,
+    tracks,
+    bpm,
+    masterVolume,
+    key,
+    scale,
+    timeSignature,
+    totalSteps,
+    lastEditedAt,
+    documentSavedAt,
+    project,
+  ]);
+
+  // Keep the address pointing at the open project so a refresh reopens it
+  useEffect(() => {
+    if (!sessionReady) return;
+    const url = project ? `/?project=${encodeURIComponent(project.id)}` : "/";
+    if (window.location.pathname + window.location.search !== url) {
+      window.history.replaceState(null, "", url);
+    }
+  }, [sessionReady, project]);
+
   // Add this useEffect for proper cleanup when component unmounts
   useEffect(() => {
     return () => {
@@ -705,7 +1507,43 @@ export default function OrchestraBuilder() {
   };
 
   return (
-    <div className="space-y-6">
+    <div
+      className="space-y-6"
+      onDragOver={(e) => {
+        if (hasFiles(e.dataTransfer)) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        // Dropping a JSON, MIDI or MusicXML file anywhere on the builder opens it
+        if (!hasFiles(e.dataTransfer)) return;
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) openComposition(file);
+      }}
+    >
+      {recoverableSession && (
+        <div
+          className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/50 p-3 text-sm"
+          role="status"
+        >
+          <span>
+            Your previous session has unsaved changes from{" "}
+            {new Date(recoverableSession.savedAt ?? 0).toLocaleString()}.
+            Recover it?
+          </span>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => restoreSession(recoverableSession, project)}
+              size="sm"
+            >
+              Recover
+            </Button>
+            <Button onClick={discardSession} variant="ghost" size="sm">
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Playback Controls - Moved to the top */}
       <Card>
         <CardContent className="p-4 md:p-6">
@@ -734,6 +1572,39 @@ export default function OrchestraBuilder() {
                 </Button>
               </div>
 
+              <div className="flex items-center gap-1">
+                <Button
+                  onClick={undo}
+                  disabled={history.past.length === 0}
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={
+                    history.past.length > 0
+                      ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                      : "Nothing to undo"
+                  }
+                  aria-label="Undo"
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={redo}
+                  disabled={history.future.length === 0}
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8"
+                  title={
+                    history.future.length > 0
+                      ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)`
+                      : "Nothing to redo"
+                  }
+                  aria-label="Redo"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+              </div>
+
               <Button
                 onClick={() => {
                   if (Tone.context.state !== "running") {
@@ -768,14 +1639,11 @@ export default function OrchestraBuilder() {
                 <div className="w-32">
                   <Slider
                     id="master-volume"
-                    defaultValue={[0]}
-                    min={-40}
-                    max={10}
+                    value={[masterVolume]}
+                    min={MIN_VOLUME}
+                    max={MAX_VOLUME}
                     step={1}
-                    onValueChange={(value) => {
-                      // Adjust master volume
-                      Tone.Destination.volume.value = value[0];
-                    }}
+                    onValueChange={(value) => updateMasterVolume(value[0])}
                   />
                 </div>
               </div>
@@ -791,7 +1659,9 @@ export default function OrchestraBuilder() {
                     min={60}
                     max={200}
                     step={1}
-                    onValueChange={(value) => setBpm(value[0])}
+                    onValueChange={(value) =>
+                      commitEdit("Change tempo", { bpm: value[0] }, "bpm")
+                    }
                   />
                 </div>
                 <span className="text-sm font-mono w-8">{bpm}</span>
@@ -803,28 +1673,12 @@ export default function OrchestraBuilder() {
                 <Label htmlFor="key" className="text-sm font-medium">
                   Key
                 </Label>
-                <Select value={key} onValueChange={setKey}>
+                <Select value={key} onValueChange={changeKey}>
                   <SelectTrigger id="key" className="w-20">
                     <SelectValue placeholder="Key" />
                   </SelectTrigger>
                   <SelectContent>
-                    {[
-                      "C",
-                      "G",
-                      "D",
-                      "A",
-                      "E",
-                      "B",
-                      "F#",
-                      "C#",
-                      "F",
-                      "Bb",
-                      "Eb",
-                      "Ab",
-                      "Db",
-                      "Gb",
-                      "Cb",
-                    ].map((k) => (
+                    {Object.keys(KEY_SIGNATURES).map((k) => (
                       <SelectItem key={k} value={k}>
                         {k}
                       </SelectItem>
@@ -837,7 +1691,12 @@ export default function OrchestraBuilder() {
                 <Label htmlFor="scale" className="text-sm font-medium">
                   Scale
                 </Label>
-                <Select value={scale} onValueChange={setScale}>
+                <Select
+                  value={scale}
+                  onValueChange={(value) =>
+                    commitEdit("Change scale", { scale: value })
+                  }
+                >
                   <SelectTrigger id="scale" className="w-28">
                     <SelectValue placeholder="Scale" />
                   </SelectTrigger>
@@ -860,7 +1719,17 @@ export default function OrchestraBuilder() {
                     const [numerator, denominator] = value
                       .split("/")
                       .map(Number);
-                    setTimeSignature({ numerator, denominator });
+                    const next = { numerator, denominator };
+                    // Keep the number of measures, now of the new length
+                    commitEdit("Change time signature", {
+                      timeSignature: next,
+                      totalSteps: resizeForTimeSignature(
+                        totalSteps,
+                        timeSignature,
+                        next,
+                        tracks
+                      ),
+                    });
                   }}
                 >
                   <SelectTrigger id="timeSignature" className="w-20">
@@ -877,6 +1746,48 @@ export default function OrchestraBuilder() {
                 </Select>
               </div>
 
+              <Button asChild variant="outline" size="sm" className="gap-1">
+                <Link href="/projects">
+                  <Library className="h-4 w-4" />
+                  <span className="hidden sm:inline">Library</span>
+                </Link>
+              </Button>
+
+              {!project && (
+                <Button
+                  onClick={saveToLibrary}
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                >
+                  <FolderPlus className="h-4 w-4" />
+                  <span className="hidden sm:inline">Save to library</span>
+                </Button>
+              )}
+
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                variant="outline"
+                size="sm"
+                className="gap-1"
+              >
+                <FolderOpen className="h-4 w-4" />
+                <span className="hidden sm:inline">Open</span>
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.mid,.midi,.musicxml,.xml,.mxl,application/json,audio/midi"
+                className="hidden"
+                data-testid="open-file-input"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openComposition(file);
+                  // Reset so the same file can be opened again
+                  e.target.value = "";
+                }}
+              />
+
               <Button
                 onClick={exportMusic}
                 variant="outline"
@@ -886,14 +1797,316 @@ export default function OrchestraBuilder() {
                 <Save className="h-4 w-4" />
                 <span className="hidden sm:inline">Export</span>
               </Button>
+
+              <Button
+                onClick={exportMidiFile}
+                variant="outline"
+                size="sm"
+                className="gap-1"
+              >
+                <FileMusic className="h-4 w-4" />
+                <span className="hidden sm:inline">MIDI</span>
+              </Button>
+
+              <Button
+                onClick={exportMusicXmlFile}
+                variant="outline"
+                size="sm"
+                className="gap-1"
+              >
+                <FileCode className="h-4 w-4" />
+                <span className="hidden sm:inline">MusicXML</span>
+              </Button>
+
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-1">
+                    <FileAudio className="h-4 w-4" />
+                    <span className="hidden sm:inline">WAV</span>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="wav-bit-depth">Bit depth</Label>
+                    <Select
+                      value={wavBitDepth.toString()}
+                      onValueChange={(value) =>
+                        setWavBitDepth(Number(value) as WavBitDepth)
+                      }
+                    >
+                      <SelectTrigger id="wav-bit-depth" className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="16">16-bit</SelectItem>
+                        <SelectItem value="24">24-bit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="wav-loops">Loops</Label>
+                    <Select
+                      value={renderLoops.toString()}
+                      onValueChange={(value) => setRenderLoops(Number(value))}
+                    >
+                      <SelectTrigger id="wav-loops" className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 4, 8].map((count) => (
+                          <SelectItem key={count} value={count.toString()}>
+                            {count}×
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="wav-tail">Release tail</Label>
+                      <span className="text-sm font-mono">{releaseTail}s</span>
+                    </div>
+                    <Slider
+                      id="wav-tail"
+                      value={[releaseTail]}
+                      min={0}
+                      max={10}
+                      step={0.5}
+                      onValueChange={(value) => setReleaseTail(value[0])}
+                    />
+                  </div>
+
+                  <Button
+                    onClick={renderWavFile}
+                    disabled={isRendering}
+                    size="sm"
+                    className="w-full"
+                  >
+                    {isRendering ? "Rendering…" : "Render to WAV"}
+                  </Button>
+                </PopoverContent>
+              </Popover>
             </div>
           </div>
+
+          {sampleProgress && (
+            <div
+              className="mt-3 flex items-center gap-3 text-sm text-muted-foreground"
+              data-testid="sample-progress"
+            >
+              <span>Loading instrument samples</span>
+              <Progress
+                value={(sampleProgress.loaded / sampleProgress.total) * 100}
+                className="h-2 w-40"
+              />
+              <span className="font-mono">
+                {sampleProgress.loaded}/{sampleProgress.total}
+              </span>
+            </div>
+          )}
+
+          {project && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              Editing <span className="font-medium">{project.title}</span>
+              {" · "}changes are saved to the library automatically
+            </p>
+          )}
+
+          {importError && (
+            <p className="mt-3 text-sm text-destructive" role="alert">
+              {importError}
+            </p>
+          )}
+
+          {renderError && (
+            <p className="mt-3 text-sm text-destructive" role="alert">
+              {renderError}
+            </p>
+          )}
+
+          {importWarnings.length > 0 && (
+            <div className="mt-3 rounded-md border bg-muted/50 p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  Some parts of the file could not be imported exactly:
+                </span>
+                <Button
+                  onClick={() => setImportWarnings([])}
+                  variant="ghost"
+                  size="sm"
+                >
+                  Dismiss
+                </Button>
+              </div>
+              <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+                {importWarnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Multi-Staff Notation */}
       <Card className="w-full">
         <CardContent className="p-4 md:p-6">
+          {/* Score length */}
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">
+              {measureCount} {measureCount === 1 ? "measure" : "measures"}
+            </span>
+            <Select
+              value={String(editedMeasure)}
+              onValueChange={(value) => setSelectedMeasure(Number(value))}
+            >
+              <SelectTrigger className="h-8 w-32" aria-label="Measure to edit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: measureCount }, (_, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    Measure {index + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => insertMeasure(editedMeasure)}
+              variant="outline"
+              size="sm"
+            >
+              Insert before
+            </Button>
+            <Button
+              onClick={() => deleteMeasure(editedMeasure)}
+              variant="outline"
+              size="sm"
+              disabled={measureCount <= 1}
+            >
+              Delete measure
+            </Button>
+            <Button
+              onClick={() => insertMeasure(measureCount)}
+              variant="outline"
+              size="sm"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add measure
+            </Button>
+            {(["crescendo", "diminuendo"] as Hairpin["type"][]).map((type) => {
+              const start = editedMeasure * measureSteps;
+              const active = !!currentTrack?.hairpins?.some(
+                (hairpin) => hairpin.type === type && hairpin.start === start
+              );
+              return (
+                <Button
+                  key={type}
+                  onClick={() => toggleHairpin(type, editedMeasure)}
+                  variant={active ? "default" : "outline"}
+                  size="sm"
+                  aria-pressed={active}
+                  title={`A ${type} across this measure of the current track`}
+                  disabled={!currentTrack}
+                >
+                  {type === "crescendo" ? "Crescendo" : "Diminuendo"}
+                </Button>
+              );
+            })}
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  Transpose
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 space-y-4">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="transpose-mode">By</Label>
+                  <Select
+                    value={transposeMode}
+                    onValueChange={(value) =>
+                      setTransposeMode(value as Transposition["mode"])
+                    }
+                  >
+                    <SelectTrigger id="transpose-mode" className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="chromatic">Semitones</SelectItem>
+                      <SelectItem value="diatonic">Scale steps</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="transpose-amount">Amount</Label>
+                  <Select
+                    value={transposeAmount.toString()}
+                    onValueChange={(value) => setTransposeAmount(Number(value))}
+                  >
+                    <SelectTrigger id="transpose-amount" className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 25 }, (_, index) => index - 12)
+                        .filter((amount) => amount !== 0)
+                        .map((amount) => (
+                          <SelectItem key={amount} value={amount.toString()}>
+                            {amount > 0 ? `Up ${amount}` : `Down ${-amount}`}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="transpose-scope">Notes</Label>
+                  <Select
+                    value={transposeScope}
+                    onValueChange={(value) =>
+                      setTransposeScope(value as TransposeScope)
+                    }
+                  >
+                    <SelectTrigger id="transpose-scope" className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="measure">
+                        Measure {editedMeasure + 1}
+                      </SelectItem>
+                      <SelectItem value="track">Current track</SelectItem>
+                      <SelectItem value="score">Whole score</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Button
+                  onClick={() =>
+                    transpose(
+                      { mode: transposeMode, amount: transposeAmount },
+                      transposeScope
+                    )
+                  }
+                  size="sm"
+                  className="w-full"
+                >
+                  Transpose
+                </Button>
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          {rangeWarning && (
+            <p className="mb-4 text-sm text-destructive" role="alert">
+              {rangeWarning}
+            </p>
+          )}
+
+          <RangeReport tracks={tracks} onSelectTrack={setCurrentTrackId} />
+
           <MultiStaffNotation
             tracks={tracks}
             currentTrackId={currentTrackId}
@@ -905,8 +2118,34 @@ export default function OrchestraBuilder() {
             totalSteps={totalSteps}
             onSelectTrack={setCurrentTrackId}
             noteDuration={0}
+            activeValue={draggedRest ? { duration: draggedRest } : activeValue}
+            onAddRest={addRest}
+            timeSignature={timeSignature}
+            activeAccidental={activeAccidental ?? undefined}
           />
 
+          {currentTrack && currentKit && (
+            <DrumGrid
+              track={currentTrack}
+              kit={currentKit}
+              totalSteps={totalSteps}
+              timeSignature={timeSignature}
+              currentStep={currentStep}
+              isPlaying={isPlaying}
+              onToggle={(step, pitch) =>
+                addNote(currentTrack.id, step, pitch, "eighth", {
+                  duration: "eighth",
+                })
+              }
+            />
+          )}
+
+          {placementError && (
+            <p className="mt-3 text-sm text-destructive" role="alert">
+              {placementError}
+            </p>
+          )}
+
           {/* Note Palette */}
           <div className="mt-6 pt-4 border-t">
             <h3 className="text-lg font-medium mb-4 text-center">
@@ -937,9 +2176,194 @@ export default function OrchestraBuilder() {
               )}
             </div>
 
+            {/* Rhythm modifiers for the notes placed next */}
+            <div className="mt-4 flex flex-wrap justify-center gap-2">
+              <Button
+                variant={activeDotted ? "default" : "outline"}
+                size="sm"
+                aria-pressed={activeDotted}
+                onClick={() => setActiveDotted(!activeDotted)}
+              >
+                Dotted
+              </Button>
+              <Button
+                variant={activeTriplet ? "default" : "outline"}
+                size="sm"
+                aria-pressed={activeTriplet}
+                onClick={() => setActiveTriplet(!activeTriplet)}
+              >
+                Triplet
+              </Button>
+              <Button
+                variant={tieMode ? "default" : "outline"}
+                size="sm"
+                aria-pressed={tieMode}
+                title="Hold the previous note of the same pitch into the next note you place"
+                onClick={() => setTieMode(!tieMode)}
+              >
+                Tie
+              </Button>
+              {(
+                [
+                  ["sharp", "♯"],
+                  ["flat", "♭"],
+                  ["natural", "♮"],
+                ] as [Accidental, string][]
+              ).map(([accidental, symbol]) => (
+                <Button
+                  key={accidental}
+                  variant={
+                    activeAccidental === accidental ? "default" : "outline"
+                  }
+                  size="sm"
+                  aria-pressed={activeAccidental === accidental}
+                  aria-label={accidental}
+                  title={`Place ${accidental} notes`}
+                  onClick={() =>
+                    setActiveAccidental(
+                      activeAccidental === accidental ? null : accidental
+                    )
+                  }
+                >
+                  {symbol}
+                </Button>
+              ))}
+            </div>
+
+            {/* Expression for the notes placed next */}
+            <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+              {ARTICULATIONS.map((articulation) => {
+                const active = activeArticulations.includes(articulation);
+                return (
+                  <Button
+                    key={articulation}
+                    variant={active ? "default" : "outline"}
+                    size="sm"
+                    className="capitalize"
+                    aria-pressed={active}
+                    onClick={() =>
+                      setActiveArticulations(
+                        active
+                          ? activeArticulations.filter(
+                              (current) => current !== articulation
+                            )
+                          : [...activeArticulations, articulation]
+                      )
+                    }
+                  >
+                    {articulation}
+                  </Button>
+                );
+              })}
+              <Button
+                variant={slurMode ? "default" : "outline"}
+                size="sm"
+                aria-pressed={slurMode}
+                title="Slur the previous note into the next note you place"
+                onClick={() => setSlurMode(!slurMode)}
+              >
+                Slur
+              </Button>
+              <Select
+                value={activeDynamic ?? "none"}
+                onValueChange={(value) =>
+                  setActiveDynamic(value === "none" ? null : (value as Dynamic))
+                }
+              >
+                <SelectTrigger className="h-8 w-28" aria-label="Dynamic">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No dynamic</SelectItem>
+                  {DYNAMICS.map((dynamic) => (
+                    <SelectItem key={dynamic} value={dynamic}>
+                      {dynamic}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={
+                  activeVelocity === null ? "auto" : String(activeVelocity)
+                }
+                onValueChange={(value) =>
+                  setActiveVelocity(value === "auto" ? null : Number(value))
+                }
+              >
+                <SelectTrigger className="h-8 w-32" aria-label="Velocity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto velocity</SelectItem>
+                  {[0.25, 0.5, 0.75, 1].map((velocity) => (
+                    <SelectItem key={velocity} value={String(velocity)}>
+                      Velocity {velocity * 100}%
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="mt-2 text-center text-xs text-muted-foreground">
+              Placing: {noteValueName(activeValue)}
+              {activeAccidental ? `, ${activeAccidental}` : ""}
+              {activeArticulations.length > 0
+                ? `, ${activeArticulations.join(" and ")}`
+                : ""}
+              {activeDynamic ? `, marked ${activeDynamic}` : ""}
+              {activeVelocity !== null
+                ? `, at ${activeVelocity * 100}% velocity`
+                : ""}
+              {tieMode ? ", tied from the previous note" : ""}
+              {slurMode ? ", slurred from the previous note" : ""}
+            </p>
+
+            {/* Rest Palette */}
+            <h3 className="text-lg font-medium mt-6 mb-4 text-center">
+              Drag Rests to Staff
+            </h3>
+
+            <div className="flex flex-wrap justify-center gap-6">
+              {(
+                [
+                  "whole",
+                  "half",
+                  "quarter",
+                  "eighth",
+                  "sixteenth",
+                ] as NoteDuration[]
+              ).map((duration) => (
+                <div
+                  key={duration}
+                  className="flex flex-col items-center gap-1 cursor-grab"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData("restDuration", duration);
+                    setDraggedRest(duration);
+                  }}
+                  onDragEnd={() => setDraggedRest(null)}
+                >
+                  <RestSymbol duration={duration} width={27} height={40} />
+                  <span className="text-xs capitalize">{duration} rest</span>
+                </div>
+              ))}
+            </div>
+
             <div className="mt-4 text-center text-sm text-muted-foreground">
               Select a note type and drag it to the staff. The vertical position
-              determines the pitch.
+              determines the pitch. Dotted notes last half as long again, and
+              triplets fit three notes into the time of two. With Tie on, a note
+              dropped where the same pitch ends is held on from it, even across
+              a barline. Dropped notes follow the key signature; pick a sharp,
+              flat or natural to override it, or hold Shift for a sharp or Alt
+              for a flat while dropping. The staff only shows accidentals the
+              key signature doesn't already give. Articulations, a dynamic
+              marking and a fixed velocity are given to the notes you place
+              next; the dynamic is written once and then cleared. With Slur on,
+              the note ending where you drop is slurred into the new one.
+              Crescendo and Diminuendo shape the selected measure of the current
+              track towards the next marking. Rests fill empty beats
+              automatically; drop one to mark a deliberate silence, and click it
+              to remove it.
             </div>
           </div>
         </CardContent>
@@ -980,19 +2404,21 @@ export default function OrchestraBuilder() {
                         <SelectValue placeholder="Instrument" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="piano">Piano</SelectItem>
-                        <SelectItem value="violin">Violin</SelectItem>
-                        <SelectItem value="cello">Cello</SelectItem>
-                        <SelectItem value="bass">Double Bass</SelectItem>
-                        <SelectItem value="flute">Flute</SelectItem>
-                        <SelectItem value="clarinet">Clarinet</SelectItem>
-                        <SelectItem value="oboe">Oboe</SelectItem>
-                        <SelectItem value="bassoon">Bassoon</SelectItem>
-                        <SelectItem value="trumpet">Trumpet</SelectItem>
-                        <SelectItem value="trombone">Trombone</SelectItem>
-                        <SelectItem value="tuba">Tuba</SelectItem>
-                        <SelectItem value="french horn">French Horn</SelectItem>
-                        <SelectItem value="drums">Drums</SelectItem>
+                        {INSTRUMENT_FAMILIES.map((family) => (
+                          <SelectGroup key={family.id}>
+                            <SelectLabel>{family.name}</SelectLabel>
+                            {INSTRUMENTS.filter(
+                              (instrument) => instrument.family === family.id
+                            ).map((instrument) => (
+                              <SelectItem
+                                key={instrument.id}
+                                value={instrument.id}
+                              >
+                                {instrument.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -1004,6 +2430,34 @@ export default function OrchestraBuilder() {
                     onCheckedChange={() => toggleTrackMute(track.id)}
                   />
 
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant={track.effects?.length ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-8 px-2 font-mono text-xs"
+                        aria-label={`Effects for track ${track.id}`}
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        FX
+                        {track.effects?.length
+                          ? ` ${track.effects.length}`
+                          : ""}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent
+                      className="w-80"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <EffectsChain
+                        effects={track.effects ?? []}
+                        onChange={(effects, label, group) =>
+                          updateTrackEffects(track.id, effects, label, group)
+                        }
+                      />
+                    </PopoverContent>
+                  </Popover>
+
                   <Button
                     variant="ghost"
                     size="icon"
@@ -1022,6 +2476,91 @@ export default function OrchestraBuilder() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Mixer */}
+      <Card className="w-full">
+        <CardContent className="p-4 md:p-6">
+          <h2 className="text-xl font-semibold mb-4">Mixer</h2>
+          <MixerPanel
+            tracks={tracks}
+            masterVolume={masterVolume}
+            isPlaying={isPlaying}
+            readLevels={readLevels}
+            onVolumeChange={updateTrackVolume}
+            onPanChange={updateTrackPan}
+            onSendChange={updateTrackSend}
+            onMuteToggle={toggleTrackMute}
+            onSoloToggle={toggleTrackSolo}
+            onMasterVolumeChange={updateMasterVolume}
+          />
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={pendingKey !== null}
+        onOpenChange={(open) => !open && setPendingKey(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change the key to {pendingKey}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Transpose the score from {key} into {pendingKey}
+              {respelledCount > 0
+                ? `, re-spell the ${respelledCount} ${
+                    respelledCount === 1
+                      ? "note that follows"
+                      : "notes that follow"
+                  } the ${key} key signature,`
+                : ""}{" "}
+              or keep every pitch and show accidentals where the new key
+              differs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "outline" })}
+              onClick={() => {
+                if (pendingKey) commitEdit("Change key", { key: pendingKey });
+                setPendingKey(null);
+              }}
+            >
+              Keep pitches
+            </AlertDialogAction>
+            {respelledCount > 0 && (
+              <AlertDialogAction
+                className={buttonVariants({ variant: "outline" })}
+                onClick={() => {
+                  if (pendingKey) {
+                    commitEdit("Change key", {
+                      key: pendingKey,
+                      tracks: respelledTracks,
+                    });
+                  }
+                  setPendingKey(null);
+                }}
+              >
+                Re-spell notes
+              </AlertDialogAction>
+            )}
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingKey) {
+                  transpose(
+                    { mode: "chromatic", amount: keyDistance(key, pendingKey) },
+                    "score",
+                    "Transpose to key",
+                    { key: pendingKey }
+                  );
+                }
+                setPendingKey(null);
+              }}
+            >
+              Transpose score
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
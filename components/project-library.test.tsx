@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent } from "@testing-library/dom";
+import ProjectLibrary from "./project-library";
+import type { Project } from "@/lib/storage";
+
+const push = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ push }),
+}));
+
+vi.mock("@/lib/storage", () => ({
+  listProjects: vi.fn(),
+  createProject: vi.fn(),
+  saveProject: vi.fn(),
+  deleteProject: vi.fn(),
+}));
+
+// Render the dialog inline so its buttons can be clicked
+vi.mock("@/components/ui/alert-dialog", () => ({
+  AlertDialog: ({ children, open }: any) =>
+    open ? <div data-testid="alert-dialog">{children}</div> : null,
+  AlertDialogContent: ({ children }: any) => <div>{children}</div>,
+  AlertDialogHeader: ({ children }: any) => <div>{children}</div>,
+  AlertDialogFooter: ({ children }: any) => <div>{children}</div>,
+  AlertDialogTitle: ({ children }: any) => <h2>{children}</h2>,
+  AlertDialogDescription: ({ children }: any) => <p>{children}</p>,
+  AlertDialogCancel: ({ children }: any) => <button>{children}</button>,
+  AlertDialogAction: ({ children, onClick }: any) => (
+    <button onClick={onClick}>{children}</button>
+  ),
+}));
+
+vi.mock("lucide-react", () => ({
+  ArrowLeft: () => <div data-testid="arrow-left-icon" />,
+  Copy: () => <div data-testid="copy-icon" />,
+  Pencil: () => <div data-testid="pencil-icon" />,
+  Plus: () => <div data-testid="plus-icon" />,
+  Trash2: () => <div data-testid="trash-icon" />,
+}));
+
+import {
+  createProject,
+  deleteProject,
+  listProjects,
+  saveProject,
+} from "@/lib/storage";
+
+describe("ProjectLibrary Component", () => {
+  const project: Project = {
+    id: "p1",
+    title: "Morning Overture",
+    createdAt: 0,
+    updatedAt: Date.UTC(2024, 0, 2),
+    composition: {
+      tracks: [
+        {
+          id: "1",
+          instrument: "violin",
+          notes: [{ step: 0, pitch: "C5", duration: "quarter" }],
+          volume: 0,
+          muted: false,
+        },
+        { id: "2", instrument: "cello", notes: [], volume: 0, muted: false },
+      ],
+      bpm: 120,
+      key: "C",
+      scale: "major",
+      timeSignature: { numerator: 4, denominator: 4 },
+      totalSteps: 16,
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(listProjects).mockResolvedValue([project]);
+    vi.mocked(createProject).mockResolvedValue({ ...project, id: "p2" });
+    vi.mocked(saveProject).mockResolvedValue(undefined);
+    vi.mocked(deleteProject).mockResolvedValue(undefined);
+  });
+
+  it("lists saved projects with their details and a preview", async () => {
+    render(<ProjectLibrary />);
+
+    expect(await screen.findByText("Morning Overture")).toBeInTheDocument();
+    expect(screen.getByText(/2 tracks/)).toBeInTheDocument();
+    expect(screen.getByTestId("project-preview").textContent).toContain("●");
+    expect(screen.getByText("Open").closest("a")).toHaveAttribute(
+      "href",
+      "/?project=p1"
+    );
+  });
+
+  it("shows an empty state when there are no projects", async () => {
+    vi.mocked(listProjects).mockResolvedValue([]);
+    render(<ProjectLibrary />);
+
+    expect(
+      await screen.findByText(/No saved projects yet/)
+    ).toBeInTheDocument();
+  });
+
+  it("renames a project", async () => {
+    render(<ProjectLibrary />);
+    fireEvent.click(await screen.findByText("Rename"));
+
+    const input = screen.getByLabelText("Project title");
+    fireEvent.change(input, { target: { value: "Evening Overture" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    await waitFor(() =>
+      expect(saveProject).toHaveBeenCalledWith({
+        ...project,
+        title: "Evening Overture",
+      })
+    );
+  });
+
+  it("duplicates a project", async () => {
+    render(<ProjectLibrary />);
+    fireEvent.click(await screen.findByText("Duplicate"));
+
+    await waitFor(() =>
+      expect(createProject).toHaveBeenCalledWith(
+        "Morning Overture (copy)",
+        project.composition
+      )
+    );
+  });
+
+  it("asks before deleting a project", async () => {
+    render(<ProjectLibrary />);
+    fireEvent.click(await screen.findByText("Delete"));
+
+    expect(screen.getByTestId("alert-dialog")).toBeInTheDocument();
+    expect(deleteProject).not.toHaveBeenCalled();
+
+    const buttons = screen.getAllByText("Delete");
+    fireEvent.click(buttons[buttons.length - 1]);
+
+    await waitFor(() => expect(deleteProject).toHaveBeenCalledWith("p1"));
+  });
+
+  it("creates a new project and opens it", async () => {
+    render(<ProjectLibrary />);
+    fireEvent.click(await screen.findByText("New project"));
+
+    await waitFor(() => expect(push).toHaveBeenCalledWith("/?project=p2"));
+  });
+});
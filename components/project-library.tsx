@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, Copy, Pencil, Plus, Trash2 } from "lucide-react"
+import { createEmptyComposition } from "@/lib/composition"
+import { printMusicAsASCII } from "@/lib/music-utils"
+import { createProject, deleteProject, listProjects, saveProject, type Project } from "@/lib/storage"
+
+export default function ProjectLibrary() {
+  const router = useRouter()
+  const [projects, setProjects] = useState<Project[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState("")
+  const [pendingDelete, setPendingDelete] = useState<Project | null>(null)
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects())
+    } catch (err) {
+      console.error("Error loading projects:", err)
+      setError("Saved projects could not be loaded.")
+      setProjects([])
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  // Run a library change, report failures, then reload the list
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+      setError(null)
+    } catch (err) {
+      console.error(failure, err)
+      setError(failure)
+    }
+    await refresh()
+  }
+
+  const openUrl = (project: Project) => `/?project=${encodeURIComponent(project.id)}`
+
+  const newProject = async () => {
+    try {
+      const created = await createProject("Untitled project", createEmptyComposition())
+      router.push(openUrl(created))
+    } catch (err) {
+      console.error("Error creating project:", err)
+      setError("The project could not be created.")
+    }
+  }
+
+  const startRename = (project: Project) => {
+    setRenamingId(project.id)
+    setDraftTitle(project.title)
+  }
+
+  const commitRename = (project: Project) => {
+    setRenamingId(null)
+    const title = draftTitle.trim()
+    if (!title || title === project.title) return
+    run(() => saveProject({ ...project, title }), "The project could not be renamed.")
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button asChild variant="outline" size="sm" className="gap-1">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            Back to builder
+          </Link>
+        </Button>
+        <Button onClick={newProject} size="sm" className="gap-1">
+          <Plus className="h-4 w-4" />
+          New project
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {projects === null ? (
+        <p className="text-center text-muted-foreground">Loading projects…</p>
+      ) : projects.length === 0 ? (
+        <p className="text-center text-muted-foreground">
+          No saved projects yet. Create one here, or use “Save to library” in the builder.
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {projects.map((project) => (
+            <Card key={project.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    {renamingId === project.id ? (
+                      <Input
+                        aria-label="Project title"
+                        value={draftTitle}
+                        autoFocus
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        onBlur={() => commitRename(project)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename(project)
+                          if (e.key === "Escape") setRenamingId(null)
+                        }}
+                      />
+                    ) : (
+                      <h2 className="font-medium truncate">{project.title}</h2>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Last modified {new Date(project.updatedAt).toLocaleString()} ·{" "}
+                      {project.composition.tracks.length}{" "}
+                      {project.composition.tracks.length === 1 ? "track" : "tracks"}
+                    </p>
+                  </div>
+                  <Button asChild size="sm">
+                    <Link href={openUrl(project)}>Open</Link>
+                  </Button>
+                </div>
+
+                <pre
+                  className="overflow-x-auto rounded bg-muted p-2 text-[10px] leading-tight"
+                  data-testid="project-preview"
+                >
+                  {printMusicAsASCII(project.composition.tracks.flatMap((track) => track.notes))}
+                </pre>
+
+                <div className="flex gap-2">
+                  <Button onClick={() => startRename(project)} variant="ghost" size="sm" className="gap-1">
+                    <Pencil className="h-4 w-4" />
+                    Rename
+                  </Button>
+                  <Button
+                    onClick={() =>
+                      run(
+                        () => createProject(`${project.title} (copy)`, project.composition),
+                        "The project could not be duplicated.",
+                      )
+                    }
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1"
+                  >
+                    <Copy className="h-4 w-4" />
+                    Duplicate
+                  </Button>
+                  <Button
+                    onClick={() => setPendingDelete(project)}
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1 text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{pendingDelete?.title}”?</AlertDialogTitle>
+            <AlertDialogDescription>This removes the project from this browser. It cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const doomed = pendingDelete
+                setPendingDelete(null)
+                if (doomed) run(() => deleteProject(doomed.id), "The project could not be deleted.")
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { fireEvent } from "@testing-library/dom";
+import RangeReport from "./range-report";
+import type { Track } from "@/lib/types";
+
+describe("RangeReport", () => {
+  const tuba: Track = {
+    id: "tuba",
+    instrument: "tuba",
+    volume: -10,
+    muted: false,
+    notes: [
+      { step: 0, pitch: "C3", duration: "quarter" },
+      { step: 2, pitch: "Eb4", duration: "quarter" },
+      { step: 4, pitch: "C6", duration: "quarter" },
+    ],
+  };
+
+  it("renders nothing while every note is comfortable", () => {
+    const { container } = render(
+      <RangeReport
+        tracks={[{ ...tuba, notes: [tuba.notes[0]] }]}
+        onSelectTrack={vi.fn()}
+      />
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("lists every note outside the comfortable range", () => {
+    const onSelectTrack = vi.fn();
+    render(<RangeReport tracks={[tuba]} onSelectTrack={onSelectTrack} />);
+
+    expect(screen.getByTestId("range-report").textContent).toContain(
+      "2 notes are outside the comfortable range, 1 can't be played"
+    );
+    const entries = screen.getAllByRole("listitem");
+    expect(entries.map((entry) => entry.textContent)).toEqual([
+      "Eb4 on the tuba, step 3: outside the comfortable range (F1–F3)",
+      "C6 on the tuba, step 5: out of range (D1–F4)",
+    ]);
+
+    fireEvent.click(screen.getByText("C6"));
+    expect(onSelectTrack).toHaveBeenCalledWith("tuba");
+  });
+});
@@ -0,0 +1,69 @@
+"use client";
+
+import { describeRange, rangeViolations } from "@/lib/instruments";
+import type { Track } from "@/lib/types";
+
+interface RangeReportProps {
+  tracks: Track[];
+  // Select the track a listed note belongs to
+  onSelectTrack: (trackId: string) => void;
+}
+
+// Lists every note in the score outside its instrument's comfortable range.
+// Renders nothing while the whole score is comfortable.
+export default function RangeReport({
+  tracks,
+  onSelectTrack,
+}: RangeReportProps) {
+  const violations = rangeViolations(tracks);
+  if (violations.length === 0) return null;
+
+  const unplayable = violations.filter(
+    ({ status }) => status === "unplayable"
+  ).length;
+
+  return (
+    <details
+      className="mb-4 rounded-md border px-3 py-2 text-sm"
+      data-testid="range-report"
+    >
+      <summary className="cursor-pointer font-medium">
+        {violations.length} {violations.length === 1 ? "note is" : "notes are"}{" "}
+        outside the comfortable range
+        {unplayable > 0 && (
+          <span className="text-destructive">
+            , {unplayable} can't be played
+          </span>
+        )}
+      </summary>
+      <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto">
+        {violations.map(({ track, note, status, range }) => {
+          return (
+            <li key={`${track.id}-${note.step}-${note.pitch}`}>
+              <button
+                type="button"
+                className="w-full rounded px-2 py-1 text-left hover:bg-muted"
+                onClick={() => onSelectTrack(track.id)}
+              >
+                <span
+                  className={
+                    status === "unplayable"
+                      ? "font-medium text-destructive"
+                      : "font-medium text-amber-600"
+                  }
+                >
+                  {note.pitch}
+                </span>{" "}
+                on the <span className="capitalize">{track.instrument}</span>,
+                step {Math.floor(note.step) + 1}:{" "}
+                {status === "unplayable"
+                  ? `out of range (${describeRange(range.playable)})`
+                  : `outside the comfortable range (${describeRange(range.comfortable)})`}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
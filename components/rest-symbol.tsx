@@ -0,0 +1,68 @@
+import type { NoteDuration } from "@/lib/types";
+
+interface RestSymbolProps {
+  duration: NoteDuration;
+  width?: number;
+  height?: number;
+}
+
+// Rest glyphs drawn in a 20x30 box whose vertical centre sits on the middle staff line
+export default function RestSymbol({
+  duration,
+  width = 20,
+  height = 30,
+}: RestSymbolProps) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 20 30"
+      width={width}
+      height={height}
+    >
+      {duration === "whole" && (
+        // Hangs below the fourth line
+        <rect x="4" y="0" width="12" height="5" fill="currentColor" />
+      )}
+      {duration === "half" && (
+        // Sits on the middle line
+        <rect x="4" y="10" width="12" height="5" fill="currentColor" />
+      )}
+      {duration === "quarter" && (
+        <path
+          d="M8,4 L13,10 L9,15 L14,21 C10,19 8,21 11,26 C5,22 7,17 10,18 L6,13 L10,9 Z"
+          fill="currentColor"
+        />
+      )}
+      {(duration === "eighth" || duration === "sixteenth") && (
+        <>
+          <line
+            x1="13"
+            y1="8"
+            x2="8"
+            y2="26"
+            stroke="currentColor"
+            strokeWidth="1.5"
+          />
+          <circle cx="8" cy="9" r="2.5" fill="currentColor" />
+          <path
+            d="M8,9 C10,11 12,10 13,8"
+            stroke="currentColor"
+            strokeWidth="1.5"
+            fill="none"
+          />
+        </>
+      )}
+      {duration === "sixteenth" && (
+        <>
+          <circle cx="6" cy="15" r="2.5" fill="currentColor" />
+          <path
+            d="M6,15 C8,17 10,16 11.3,14"
+            stroke="currentColor"
+            strokeWidth="1.5"
+            fill="none"
+          />
+        </>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,432 @@
+import * as Tone from "tone"
+import type { Composition, NoteDuration, NoteValue, Track, TrackEffect } from "./types"
+import { effectParam } from "./effects"
+import { getInstrument, kitPiece, type KitPiece, type KitSound } from "./instruments"
+import { STEP_EPSILON, isTiedInto, tieChain } from "./music-utils"
+import { type ChannelLevel, isAudible, samplePeak } from "./mixer"
+import { interpretNote } from "./dynamics"
+import { createSampledInstrument, loadSamples } from "./samples"
+
+export interface RenderOptions {
+  // How many times the score is played back to back
+  loops: number
+  // Seconds of silence kept after the last step so notes can ring out
+  tailSeconds: number
+}
+
+// The controls shared by every kind of instrument voice. `attack` scales how long a
+// note takes to speak, from the instrument's own attack; drums ignore it.
+export interface InstrumentVoice {
+  readonly volume: Tone.Param<"decibels">
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time,
+    time?: Tone.Unit.Time,
+    velocity?: number,
+    attack?: number,
+  ): unknown
+  releaseAll(time?: Tone.Unit.Time): unknown
+  connect(destination: Tone.InputNode): unknown
+  dispose(): unknown
+}
+
+// Create the voice used for an instrument in the current context, not yet connected.
+// Instruments play from their recordings once loadSamples has them, and from a synth until then.
+export function createInstrumentSynth(instrument: string): InstrumentVoice {
+  const kit = getInstrument(instrument)?.kit
+  if (kit) return new DrumKit(kit)
+
+  const sampled = createSampledInstrument(instrument)
+  if (sampled) return sampled
+
+  // Each instrument names the synth voice that suits it
+  switch (getInstrument(instrument)?.synth) {
+    case "am":
+      return new SynthVoice(new Tone.PolySynth(Tone.AMSynth))
+    case "fm":
+      return new SynthVoice(new Tone.PolySynth(Tone.FMSynth))
+    case "mono":
+      return new SynthVoice(new Tone.PolySynth(Tone.MonoSynth))
+    case "membrane":
+      return new SynthVoice(new Tone.PolySynth(Tone.MembraneSynth))
+    default:
+      return new SynthVoice(new Tone.PolySynth(Tone.Synth))
+  }
+}
+
+// A synth recipe, whose envelope attack is stretched or shortened for each note
+class SynthVoice implements InstrumentVoice {
+  readonly volume: Tone.Param<"decibels">
+  // The recipe's own attack in seconds
+  private readonly attack: number
+
+  constructor(private readonly synth: Tone.PolySynth<any>) {
+    this.volume = synth.volume
+    const options = synth.get()
+    this.attack = "envelope" in options ? synth.toSeconds(options.envelope.attack) : 0
+  }
+
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time,
+    time?: Tone.Unit.Time,
+    velocity?: number,
+    attack = 1,
+  ) {
+    // The envelope is read as the note is scheduled, so notes already sounding keep theirs
+    this.synth.set({ envelope: { attack: this.attack * attack } })
+    this.synth.triggerAttackRelease(notes, duration, time, velocity)
+    return this
+  }
+
+  releaseAll(time?: Tone.Unit.Time) {
+    this.synth.releaseAll(time)
+    return this
+  }
+
+  connect(destination: Tone.InputNode) {
+    this.synth.connect(destination)
+    return this
+  }
+
+  dispose() {
+    this.synth.dispose()
+    return this
+  }
+}
+
+// Build the Tone node for an insert effect with its saved settings
+export function createEffectNode(effect: TrackEffect): Tone.ToneAudioNode {
+  const param = (id: string) => effectParam(effect, id)
+  switch (effect.type) {
+    case "reverb":
+      return new Tone.Reverb({ decay: param("decay"), wet: param("wet") })
+    case "delay":
+      return new Tone.FeedbackDelay({ delayTime: param("time"), feedback: param("feedback"), wet: param("wet") })
+    case "eq":
+      return new Tone.EQ3({ low: param("low"), mid: param("mid"), high: param("high") })
+    case "compressor":
+      return new Tone.Compressor({ threshold: param("threshold"), ratio: param("ratio") })
+  }
+}
+
+// Seconds the shared reverb that tracks send to rings for
+const REVERB_BUS_DECAY = 3
+
+// Samples in the block a meter finds its peak in
+const PEAK_BLOCK_SIZE = 2048
+
+// Meters a signal for the mixer, reading its RMS level and its sample peak. Tone's
+// Meter only gives the smoothed RMS, so the peak comes from the waveform itself.
+export class ChannelMeter {
+  private readonly rms = new Tone.Meter()
+  private readonly waveform = new Tone.Analyser("waveform", PEAK_BLOCK_SIZE)
+
+  constructor(source: Tone.ToneAudioNode) {
+    source.fan(this.rms, this.waveform)
+  }
+
+  getValue(): ChannelLevel {
+    return { rms: this.rms.getValue() as number, peak: samplePeak(this.waveform.getValue() as Float32Array) }
+  }
+
+  dispose() {
+    this.rms.dispose()
+    this.waveform.dispose()
+    return this
+  }
+}
+
+// The master section of a mix in the current context: a master fader into the output,
+// a reverb every track can send to, and a meter on the master.
+export class MixBus {
+  readonly input: Tone.Volume
+  readonly reverb: Tone.Reverb
+  readonly meter: ChannelMeter
+
+  constructor(masterVolume = 0) {
+    this.input = new Tone.Volume(masterVolume).connect(Tone.getDestination())
+    this.reverb = new Tone.Reverb({ decay: REVERB_BUS_DECAY, wet: 1 }).connect(this.input)
+    this.meter = new ChannelMeter(this.input)
+  }
+
+  get volume() {
+    return this.input.volume
+  }
+
+  // Resolves once the reverb has generated its impulse response
+  get ready() {
+    return this.reverb.ready
+  }
+
+  dispose() {
+    this.reverb.dispose()
+    this.meter.dispose()
+    this.input.dispose()
+    return this
+  }
+}
+
+// Plays a track: its instrument through the track's insert effects, in order, then a
+// channel with its fader and pan into the mix bus, with a send to the bus reverb.
+// Live playback and offline renders build the same chain.
+export class TrackVoice {
+  readonly volume: Tone.Param<"decibels">
+  readonly meter: ChannelMeter
+  // Resolves once every effect can sound, as a reverb must first generate its impulse response
+  readonly ready: Promise<void>
+  private readonly instrument: InstrumentVoice
+  private readonly inserts: Tone.ToneAudioNode[]
+  private readonly channel: Tone.PanVol
+  private readonly send: Tone.Gain
+
+  constructor(track: Pick<Track, "instrument" | "effects" | "volume" | "pan" | "reverbSend">, bus: MixBus) {
+    this.instrument = createInstrumentSynth(track.instrument)
+    this.inserts = (track.effects ?? []).filter((effect) => !effect.bypassed).map(createEffectNode)
+    this.channel = new Tone.PanVol().connect(bus.input)
+    this.volume = this.channel.volume
+    this.meter = new ChannelMeter(this.channel)
+    this.send = new Tone.Gain(0).connect(bus.reverb)
+    this.channel.connect(this.send)
+
+    const reverbs = this.inserts.filter((node): node is Tone.Reverb => node instanceof Tone.Reverb)
+    this.ready = Promise.all(reverbs.map((reverb) => reverb.ready)).then(() => undefined)
+
+    this.instrument.connect(this.inserts[0] ?? this.channel)
+    Tone.connectSeries(...this.inserts, this.channel)
+    this.mix(track)
+  }
+
+  // Apply a track's fader, pan and reverb send. A track that isn't audible,
+  // muted or left out of a solo, is silenced along with its send.
+  mix({ volume, pan = 0, reverbSend = 0 }: Pick<Track, "volume" | "pan" | "reverbSend">, audible = true) {
+    this.channel.volume.value = volume
+    this.channel.pan.value = pan
+    this.channel.mute = !audible
+    this.send.gain.value = reverbSend
+    return this
+  }
+
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time,
+    time?: Tone.Unit.Time,
+    velocity?: number,
+    attack?: number,
+  ) {
+    this.instrument.triggerAttackRelease(notes, duration, time, velocity, attack)
+    return this
+  }
+
+  releaseAll(time?: Tone.Unit.Time) {
+    this.instrument.releaseAll(time)
+    return this
+  }
+
+  dispose() {
+    this.instrument.dispose()
+    this.inserts.forEach((node) => node.dispose())
+    this.channel.dispose()
+    this.meter.dispose()
+    this.send.dispose()
+    return this
+  }
+}
+
+// A voice for one kit piece, struck for a duration at a velocity
+interface KitVoice {
+  trigger(duration: Tone.Unit.Time, time?: Tone.Unit.Time, velocity?: number): void
+  release(time?: Tone.Unit.Time): void
+  dispose(): void
+}
+
+function createKitVoice(sound: KitSound, output: Tone.InputNode): KitVoice {
+  if (sound.kind === "membrane") {
+    const drum = new Tone.MembraneSynth({ envelope: { attack: 0.001, decay: sound.decay, sustain: 0 } }).connect(output)
+    return {
+      trigger: (duration, time, velocity) => drum.triggerAttackRelease(sound.pitch, duration, time, velocity),
+      release: (time) => drum.triggerRelease(time),
+      dispose: () => drum.dispose(),
+    }
+  }
+
+  const filter = sound.highpass ? new Tone.Filter(sound.highpass, "highpass").connect(output) : undefined
+  const noise = new Tone.NoiseSynth({
+    noise: { type: sound.noise },
+    envelope: { attack: 0.001, decay: sound.decay, sustain: 0 },
+  }).connect(filter ?? output)
+  return {
+    trigger: (duration, time, velocity) => noise.triggerAttackRelease(duration, time, velocity),
+    release: (time) => noise.triggerRelease(time),
+    dispose: () => {
+      noise.dispose()
+      filter?.dispose()
+    },
+  }
+}
+
+// Plays a kit track, each pitch of the kit on its own drum or cymbal. Keys the kit
+// doesn't map fall back to a membrane at that pitch, as every drum note once did.
+export class DrumKit {
+  readonly volume: Tone.Param<"decibels">
+  private readonly output: Tone.Volume
+  private readonly voices: Map<KitPiece, KitVoice>
+  private readonly unmapped: Tone.PolySynth<Tone.MembraneSynth>
+
+  constructor(private readonly kit: KitPiece[]) {
+    this.output = new Tone.Volume()
+    this.volume = this.output.volume
+    this.voices = new Map(kit.map((piece) => [piece, createKitVoice(piece.sound, this.output)]))
+    this.unmapped = new Tone.PolySynth(Tone.MembraneSynth).connect(this.output)
+  }
+
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time,
+    time?: Tone.Unit.Time,
+    velocity = 1,
+  ) {
+    const struck = Array.isArray(notes) ? notes : [notes]
+    struck.forEach((note) => {
+      const piece = kitPiece(this.kit, String(note))
+      const voice = piece && this.voices.get(piece)
+      if (voice) voice.trigger(duration, time, velocity)
+      else this.unmapped.triggerAttackRelease(note, duration, time, velocity)
+    })
+    return this
+  }
+
+  releaseAll(time?: Tone.Unit.Time) {
+    this.voices.forEach((voice) => voice.release(time))
+    this.unmapped.releaseAll(time)
+    return this
+  }
+
+  connect(destination: Tone.InputNode) {
+    this.output.connect(destination)
+    return this
+  }
+
+  dispose() {
+    this.voices.forEach((voice) => voice.dispose())
+    this.unmapped.dispose()
+    this.output.dispose()
+    return this
+  }
+}
+
+// Tone.js note divisions for each duration
+const TONE_DIVISIONS: Record<NoteDuration, number> = {
+  whole: 1,
+  half: 2,
+  quarter: 4,
+  eighth: 8,
+  sixteenth: 16,
+}
+
+// Convert a note value to Tone.js notation: "4n", "4n." when dotted, "8t" for a triplet.
+// Tone only names triplets, so any other tuplet is given as a fraction of its plain value.
+export function toneDuration({ duration = "eighth", dotted, tuplet }: NoteValue = {}): Tone.Unit.Time {
+  const division = TONE_DIVISIONS[duration]
+  if (!tuplet) return `${division}n${dotted ? "." : ""}`
+  if (tuplet.actual === 3 && tuplet.normal === 2 && !dotted) return `${division}t`
+  return { [`${division}n`]: (tuplet.normal / tuplet.actual) * (dotted ? 1.5 : 1) }
+}
+
+// A Tone.js value as counts of note divisions, e.g. "4n." as { "4n.": 1 }
+function timeObject(time: Tone.Unit.Time): Tone.Unit.TimeObject {
+  return typeof time === "object" ? time : { [time as Tone.Unit.Subdivision]: 1 }
+}
+
+// The length of notes tied together, as the sum of their Tone.js values
+export function toneTiedDuration(values: NoteValue[]): Tone.Unit.Time {
+  if (values.length === 1) return toneDuration(values[0])
+
+  const total: Tone.Unit.TimeObject = {}
+  values.forEach((value) => {
+    Object.entries(timeObject(toneDuration(value))).forEach(([subdivision, count]) => {
+      const key = subdivision as Tone.Unit.Subdivision
+      total[key] = (total[key] ?? 0) + count
+    })
+  })
+  return total
+}
+
+// A fraction of a Tone.js value, for a note held for only part of its length
+export function scaleTime(time: Tone.Unit.Time, factor: number): Tone.Unit.Time {
+  if (factor === 1) return time
+  return Object.fromEntries(
+    Object.entries(timeObject(time)).map(([subdivision, count]) => [subdivision, count * factor]),
+  ) as Tone.Unit.TimeObject
+}
+
+// Play the notes of every audible track that start during a step. Tuplet notes
+// starting part way through the step are offset into it, and a tied note is held
+// for its whole chain rather than played again. Each note's dynamics and
+// articulations set how loud it is, how sharply it speaks and how much of its length it sounds for.
+export function playStep(
+  tracks: Track[],
+  synths: Record<string, any>,
+  step: number,
+  time: number,
+  stepSeconds: number,
+) {
+  tracks.forEach((track) => {
+    if (!isAudible(track, tracks)) return
+
+    const notesToPlay = track.notes.filter(
+      (note) => Math.floor(note.step + STEP_EPSILON) === step && !isTiedInto(track.notes, note),
+    )
+    if (notesToPlay.length === 0 || !synths[track.id]) return
+
+    try {
+      const synth = synths[track.id]
+
+      // Skip if synth is not available
+      if (!synth || typeof synth.triggerAttackRelease !== "function") {
+        console.warn(`Synth for track ${track.id} is not available or was disposed`)
+        return
+      }
+
+      notesToPlay.forEach((note) => {
+        const offset = Math.max(0, note.step - step) * stepSeconds
+        const { velocity, gate, attack } = interpretNote(track, note)
+        const duration = scaleTime(toneTiedDuration(tieChain(track.notes, note)), gate)
+        synth.triggerAttackRelease(note.pitch, duration, time + offset, velocity, attack)
+      })
+    } catch (error) {
+      console.error(`Error playing notes for track ${track.id}:`, error)
+    }
+  })
+}
+
+// Render the composition faster than real time through an offline context.
+// The schedule is the same one live playback builds, so the result matches what you hear.
+export async function renderComposition(composition: Composition, { loops, tailSeconds }: RenderOptions) {
+  const { tracks, bpm, timeSignature, totalSteps } = composition
+  const stepSeconds = 60 / bpm / 2
+  const duration = totalSteps * stepSeconds * loops + tailSeconds
+  await loadSamples(tracks.map((track) => track.instrument))
+
+  return Tone.Offline(async ({ transport }) => {
+    transport.bpm.value = bpm
+    transport.timeSignature = [timeSignature.numerator, timeSignature.denominator]
+
+    const bus = new MixBus(composition.masterVolume)
+    const synths: Record<string, TrackVoice> = {}
+    tracks.forEach((track) => {
+      synths[track.id] = new TrackVoice(track, bus).mix(track, isAudible(track, tracks))
+    })
+    await Promise.all([bus.ready, ...Object.values(synths).map((synth) => synth.ready)])
+
+    const sequence = new Tone.Sequence(
+      (time, step) => playStep(tracks, synths, step, time, stepSeconds),
+      Array.from({ length: totalSteps }, (_, i) => i),
+      "8n",
+    )
+    sequence.loop = loops
+    sequence.start(0)
+
+    transport.start(0)
+  }, duration, 2)
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import {
+  COMPOSITION_VERSION,
+  CompositionImportError,
+  parseComposition,
+  serializeComposition,
+} from "./composition";
+import type { Composition } from "./types";
+
+describe("composition import", () => {
+  const composition: Composition = {
+    tracks: [
+      {
+        id: "1",
+        instrument: "piano",
+        notes: [
+          { step: 0, pitch: "C4", duration: "quarter" },
+          { step: 4, pitch: "F#5" },
+          {
+            step: 6,
+            pitch: "E4",
+            duration: "quarter",
+            dotted: true,
+            tie: true,
+          },
+          {
+            step: 9,
+            pitch: "E4",
+            duration: "eighth",
+            dynamic: "pp",
+            articulations: ["staccato", "accent"],
+            slur: true,
+            velocity: 0.4,
+          },
+          {
+            step: 10 + 2 / 3,
+            pitch: "G4",
+            duration: "eighth",
+            tuplet: { actual: 3, normal: 2 },
+          },
+        ],
+        hairpins: [{ type: "crescendo", start: 9, end: 12 }],
+        volume: -6,
+        muted: false,
+      },
+      {
+        id: "2",
+        instrument: "cello",
+        notes: [],
+        rests: [{ step: 0, duration: "half" }],
+        effects: [
+          { type: "eq", params: { low: 3, mid: 0, high: -6 } },
+          { type: "reverb", params: { decay: 4, wet: 0.5 }, bypassed: true },
+        ],
+        volume: 0,
+        muted: true,
+        pan: -0.5,
+        solo: true,
+        reverbSend: 0.2,
+      },
+    ],
+    bpm: 96,
+    key: "G",
+    scale: "minor",
+    timeSignature: { numerator: 3, denominator: 4 },
+    totalSteps: 24,
+    masterVolume: -3,
+  };
+
+  it("round-trips a serialized composition", () => {
+    const json = serializeComposition(composition);
+
+    expect(JSON.parse(json).version).toBe(COMPOSITION_VERSION);
+    expect(parseComposition(json)).toEqual(composition);
+  });
+
+  it("opens files written by the original exportMusic", () => {
+    // The first export format had no version and no score length
+    const legacy = JSON.stringify({
+      tracks: [
+        {
+          id: "1",
+          instrument: "violin",
+          notes: [{ step: 17, pitch: "A4", duration: "eighth" }],
+          volume: 0,
+          muted: false,
+        },
+      ],
+      bpm: 120,
+      key: "C",
+      scale: "major",
+      timeSignature: { numerator: 4, denominator: 4 },
+    });
+
+    const result = parseComposition(legacy);
+
+    expect(result.tracks[0].notes).toHaveLength(1);
+    // The score is lengthened so the note at step 17 stays visible
+    expect(result.totalSteps).toBe(20);
+  });
+
+  it("fills in fields that very old files did not have", () => {
+    const result = parseComposition(
+      JSON.stringify({
+        tracks: [{ id: "1", instrument: "flute", notes: [], volume: 0, muted: false }],
+        bpm: 100,
+        key: "D",
+      })
+    );
+
+    expect(result.scale).toBe("major");
+    expect(result.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+    expect(result.totalSteps).toBe(16);
+  });
+
+  it("rejects text that is not JSON", () => {
+    expect(() => parseComposition("not json")).toThrow(CompositionImportError);
+    expect(() => parseComposition("not json")).toThrow("not valid JSON");
+  });
+
+  it("points at the offending note when a pitch is malformed", () => {
+    const broken = JSON.parse(serializeComposition(composition));
+    broken.tracks[0].notes[1].pitch = "H9";
+
+    expect(() => parseComposition(JSON.stringify(broken))).toThrow(
+      /tracks\[0\]\.notes\[1\]\.pitch/
+    );
+  });
+
+  it("rejects unknown note durations", () => {
+    const broken = JSON.parse(serializeComposition(composition));
+    broken.tracks[0].notes[0].duration = "breve";
+
+    expect(() => parseComposition(JSON.stringify(broken))).toThrow(
+      /tracks\[0\]\.notes\[0\]\.duration/
+    );
+  });
+
+  it("rejects rests without a valid duration", () => {
+    const broken = JSON.parse(serializeComposition(composition));
+    broken.tracks[1].rests[0].duration = undefined;
+
+    expect(() => parseComposition(JSON.stringify(broken))).toThrow(
+      /tracks\[1\]\.rests\[0\]\.duration/
+    );
+  });
+
+  it("rejects unknown effects and settings out of range", () => {
+    const unknown = JSON.parse(serializeComposition(composition));
+    unknown.tracks[1].effects[0].type = "flanger";
+    expect(() => parseComposition(JSON.stringify(unknown))).toThrow(
+      /tracks\[1\]\.effects\[0\]\.type/
+    );
+
+    const loud = JSON.parse(serializeComposition(composition));
+    loud.tracks[1].effects[1].params.wet = 2;
+    expect(() => parseComposition(JSON.stringify(loud))).toThrow(
+      /tracks\[1\]\.effects\[1\]\.params\.wet must be a number from 0 to 1/
+    );
+  });
+
+  it("rejects mixer settings out of range", () => {
+    const broken = JSON.parse(serializeComposition(composition));
+    broken.tracks[1].pan = 2;
+
+    expect(() => parseComposition(JSON.stringify(broken))).toThrow(
+      /tracks\[1\]\.pan must be a number from -1 to 1/
+    );
+  });
+
+  it("rejects unknown dynamics and hairpins that run backwards", () => {
+    const loud = JSON.parse(serializeComposition(composition));
+    loud.tracks[0].notes[3].dynamic = "fff";
+    expect(() => parseComposition(JSON.stringify(loud))).toThrow(
+      /tracks\[0\]\.notes\[3\]\.dynamic/
+    );
+
+    const backwards = JSON.parse(serializeComposition(composition));
+    backwards.tracks[0].hairpins[0].end = 9;
+    expect(() => parseComposition(JSON.stringify(backwards))).toThrow(
+      /tracks\[0\]\.hairpins\[0\]\.end must be a number after its start/
+    );
+  });
+
+  it("rejects tuplets that are not whole numbers of notes", () => {
+    const broken = JSON.parse(serializeComposition(composition));
+    broken.tracks[0].notes[4].tuplet = { actual: 1.5, normal: 2 };
+
+    expect(() => parseComposition(JSON.stringify(broken))).toThrow(
+      /tracks\[0\]\.notes\[4\]\.tuplet/
+    );
+  });
+
+  it("rejects duplicate track ids", () => {
+    const broken = JSON.parse(serializeComposition(composition));
+    broken.tracks[1].id = "1";
+
+    expect(() => parseComposition(JSON.stringify(broken))).toThrow(
+      /more than one track/
+    );
+  });
+
+  it("rejects files from a newer format version", () => {
+    const newer = JSON.parse(serializeComposition(composition));
+    newer.version = COMPOSITION_VERSION + 1;
+
+    expect(() => parseComposition(JSON.stringify(newer))).toThrow(
+      /newer|update the app/
+    );
+  });
+
+  it("rejects unknown keys and scales", () => {
+    const badKey = { ...JSON.parse(serializeComposition(composition)), key: "H" };
+    const badScale = {
+      ...JSON.parse(serializeComposition(composition)),
+      scale: "lydian",
+    };
+
+    expect(() => parseComposition(JSON.stringify(badKey))).toThrow(/"key"/);
+    expect(() => parseComposition(JSON.stringify(badScale))).toThrow(/"scale"/);
+  });
+});
@@ -0,0 +1,379 @@
+import type {
+  Articulation,
+  Composition,
+  Dynamic,
+  EffectType,
+  Hairpin,
+  Note,
+  NoteDuration,
+  Rest,
+  TimeSignature,
+  Track,
+  TrackEffect,
+  Tuplet,
+} from "./types"
+import { KEY_SIGNATURES, SCALE_PATTERNS } from "./music-utils"
+import { EFFECT_TYPES, EFFECTS } from "./effects"
+import { ARTICULATIONS, DYNAMICS } from "./dynamics"
+
+// Bump this whenever the exported file layout changes and teach migrate() about it
+export const COMPOSITION_VERSION = 1
+
+export const NOTE_DURATIONS: NoteDuration[] = ["whole", "half", "quarter", "eighth", "sixteenth"]
+
+export const DEFAULT_TOTAL_STEPS = 16
+
+const VALID_DENOMINATORS = [1, 2, 4, 8, 16]
+const PITCH_PATTERN = /^[A-G](#|b)?-?\d$/
+
+export class CompositionImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CompositionImportError"
+  }
+}
+
+// The one-piano, empty 4/4 score the builder starts with
+export function createEmptyComposition(): Composition {
+  return {
+    tracks: [{ id: "1", instrument: "piano", notes: [], volume: 0, muted: false }],
+    bpm: 120,
+    key: "C",
+    scale: "major",
+    timeSignature: { numerator: 4, denominator: 4 },
+    totalSteps: DEFAULT_TOTAL_STEPS,
+  }
+}
+
+// Serialize a composition into the JSON document the builder exports
+export function serializeComposition(composition: Composition): string {
+  return JSON.stringify({ version: COMPOSITION_VERSION, ...composition })
+}
+
+// Parse and validate a JSON document written by serializeComposition (or the older exportMusic)
+export function parseComposition(json: string): Composition {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new CompositionImportError("The file is not valid JSON.")
+  }
+
+  return validateComposition(migrate(data))
+}
+
+// Validate an already decoded composition object
+export function validateComposition(data: unknown): Composition {
+  if (!isRecord(data)) {
+    throw new CompositionImportError("The file does not contain a composition.")
+  }
+
+  if (!Array.isArray(data.tracks)) {
+    throw new CompositionImportError('The composition is missing its "tracks" list.')
+  }
+  if (data.tracks.length === 0) {
+    throw new CompositionImportError("The composition has no tracks.")
+  }
+
+  const tracks = data.tracks.map((track, index) => validateTrack(track, `tracks[${index}]`))
+  const ids = new Set<string>()
+  tracks.forEach((track, index) => {
+    if (ids.has(track.id)) {
+      throw new CompositionImportError(`tracks[${index}].id "${track.id}" is used by more than one track.`)
+    }
+    ids.add(track.id)
+  })
+
+  const bpm = data.bpm
+  if (typeof bpm !== "number" || !Number.isFinite(bpm) || bpm <= 0) {
+    throw new CompositionImportError('"bpm" must be a positive number.')
+  }
+
+  if (typeof data.key !== "string" || !KEY_SIGNATURES[data.key]) {
+    throw new CompositionImportError(
+      `"key" must be one of ${Object.keys(KEY_SIGNATURES).join(", ")} (got ${JSON.stringify(data.key)}).`,
+    )
+  }
+
+  if (typeof data.scale !== "string" || !SCALE_PATTERNS[data.scale]) {
+    throw new CompositionImportError(
+      `"scale" must be one of ${Object.keys(SCALE_PATTERNS).join(", ")} (got ${JSON.stringify(data.scale)}).`,
+    )
+  }
+
+  const timeSignature = validateTimeSignature(data.timeSignature)
+
+  const totalSteps = data.totalSteps
+  if (typeof totalSteps !== "number" || !Number.isInteger(totalSteps) || totalSteps <= 0) {
+    throw new CompositionImportError('"totalSteps" must be a positive whole number.')
+  }
+
+  const composition: Composition = { tracks, bpm, key: data.key, scale: data.scale, timeSignature, totalSteps }
+  // The master fader is optional so files from before the mixer still open
+  if (data.masterVolume !== undefined) {
+    if (typeof data.masterVolume !== "number" || !Number.isFinite(data.masterVolume)) {
+      throw new CompositionImportError('"masterVolume" must be a number.')
+    }
+    composition.masterVolume = data.masterVolume
+  }
+  return composition
+}
+
+// Bring older exports up to the current layout
+function migrate(data: unknown): unknown {
+  if (!isRecord(data)) return data
+
+  const version = data.version ?? 0
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new CompositionImportError('"version" must be a whole number.')
+  }
+  if (version > COMPOSITION_VERSION) {
+    throw new CompositionImportError(
+      `This file was saved in format version ${version}, but this app only understands up to version ${COMPOSITION_VERSION}. Please update the app and try again.`,
+    )
+  }
+
+  // Version 0 files come from the original exportMusic and had no version or score length
+  if (version === 0) {
+    const tracks = Array.isArray(data.tracks) ? data.tracks : []
+    const lastStep = tracks.reduce((max: number, track) => {
+      if (!isRecord(track) || !Array.isArray(track.notes)) return max
+      return track.notes.reduce(
+        (m: number, note) => (isRecord(note) && typeof note.step === "number" ? Math.max(m, note.step) : m),
+        max,
+      )
+    }, -1)
+
+    return {
+      scale: "major",
+      timeSignature: { numerator: 4, denominator: 4 },
+      ...data,
+      totalSteps: Math.max(DEFAULT_TOTAL_STEPS, Math.ceil((lastStep + 1) / 4) * 4),
+    }
+  }
+
+  return data
+}
+
+function validateTrack(track: unknown, path: string): Track {
+  if (!isRecord(track)) {
+    throw new CompositionImportError(`${path} must be an object.`)
+  }
+  if (typeof track.id !== "string" || track.id === "") {
+    throw new CompositionImportError(`${path}.id must be a non-empty string.`)
+  }
+  if (typeof track.instrument !== "string" || track.instrument === "") {
+    throw new CompositionImportError(`${path}.instrument must be a non-empty string.`)
+  }
+  if (!Array.isArray(track.notes)) {
+    throw new CompositionImportError(`${path}.notes must be a list.`)
+  }
+  if (track.rests !== undefined && !Array.isArray(track.rests)) {
+    throw new CompositionImportError(`${path}.rests must be a list.`)
+  }
+  if (track.hairpins !== undefined && !Array.isArray(track.hairpins)) {
+    throw new CompositionImportError(`${path}.hairpins must be a list.`)
+  }
+  if (track.effects !== undefined && !Array.isArray(track.effects)) {
+    throw new CompositionImportError(`${path}.effects must be a list.`)
+  }
+  if (typeof track.volume !== "number" || !Number.isFinite(track.volume)) {
+    throw new CompositionImportError(`${path}.volume must be a number.`)
+  }
+  if (typeof track.muted !== "boolean") {
+    throw new CompositionImportError(`${path}.muted must be true or false.`)
+  }
+  if (track.pan !== undefined && !isNumberBetween(track.pan, -1, 1)) {
+    throw new CompositionImportError(`${path}.pan must be a number from -1 to 1.`)
+  }
+  if (track.solo !== undefined && typeof track.solo !== "boolean") {
+    throw new CompositionImportError(`${path}.solo must be true or false.`)
+  }
+  if (track.reverbSend !== undefined && !isNumberBetween(track.reverbSend, 0, 1)) {
+    throw new CompositionImportError(`${path}.reverbSend must be a number from 0 to 1.`)
+  }
+
+  const result: Track = {
+    id: track.id,
+    instrument: track.instrument,
+    notes: track.notes.map((note, index) => validateNote(note, `${path}.notes[${index}]`)),
+    volume: track.volume,
+    muted: track.muted,
+  }
+  // Rests are optional so files from before they existed still open
+  if (track.rests !== undefined) {
+    result.rests = track.rests.map((rest: unknown, index: number) => validateRest(rest, `${path}.rests[${index}]`))
+  }
+  if (track.hairpins !== undefined) {
+    result.hairpins = track.hairpins.map((hairpin: unknown, index: number) =>
+      validateHairpin(hairpin, `${path}.hairpins[${index}]`),
+    )
+  }
+  if (track.effects !== undefined) {
+    result.effects = track.effects.map((effect: unknown, index: number) =>
+      validateEffect(effect, `${path}.effects[${index}]`),
+    )
+  }
+  // Mixer settings are left out at their defaults
+  if (track.pan) result.pan = track.pan
+  if (track.solo) result.solo = true
+  if (track.reverbSend) result.reverbSend = track.reverbSend
+  return result
+}
+
+function validateHairpin(hairpin: unknown, path: string): Hairpin {
+  if (!isRecord(hairpin)) {
+    throw new CompositionImportError(`${path} must be an object.`)
+  }
+  if (hairpin.type !== "crescendo" && hairpin.type !== "diminuendo") {
+    throw new CompositionImportError(
+      `${path}.type must be crescendo or diminuendo (got ${JSON.stringify(hairpin.type)}).`,
+    )
+  }
+  if (typeof hairpin.start !== "number" || !Number.isFinite(hairpin.start) || hairpin.start < 0) {
+    throw new CompositionImportError(`${path}.start must be a number of 0 or more.`)
+  }
+  if (typeof hairpin.end !== "number" || !Number.isFinite(hairpin.end) || hairpin.end <= hairpin.start) {
+    throw new CompositionImportError(`${path}.end must be a number after its start.`)
+  }
+
+  return { type: hairpin.type, start: hairpin.start, end: hairpin.end }
+}
+
+function validateEffect(effect: unknown, path: string): TrackEffect {
+  if (!isRecord(effect)) {
+    throw new CompositionImportError(`${path} must be an object.`)
+  }
+  if (!EFFECT_TYPES.includes(effect.type as EffectType)) {
+    throw new CompositionImportError(
+      `${path}.type must be one of ${EFFECT_TYPES.join(", ")} (got ${JSON.stringify(effect.type)}).`,
+    )
+  }
+  if (!isRecord(effect.params)) {
+    throw new CompositionImportError(`${path}.params must be an object.`)
+  }
+  if (effect.bypassed !== undefined && typeof effect.bypassed !== "boolean") {
+    throw new CompositionImportError(`${path}.bypassed must be true or false.`)
+  }
+
+  const { params } = EFFECTS[effect.type as EffectType]
+  Object.entries(effect.params).forEach(([id, value]) => {
+    const param = params.find((candidate) => candidate.id === id)
+    if (!param) {
+      throw new CompositionImportError(`${path}.params.${id} is not a setting of ${effect.type}.`)
+    }
+    if (!isNumberBetween(value, param.min, param.max)) {
+      throw new CompositionImportError(`${path}.params.${id} must be a number from ${param.min} to ${param.max}.`)
+    }
+  })
+
+  const result: TrackEffect = { type: effect.type as EffectType, params: { ...effect.params } }
+  if (effect.bypassed) result.bypassed = true
+  return result
+}
+
+function validateRest(rest: unknown, path: string): Rest {
+  if (!isRecord(rest)) {
+    throw new CompositionImportError(`${path} must be an object.`)
+  }
+  if (typeof rest.step !== "number" || !Number.isFinite(rest.step) || rest.step < 0) {
+    throw new CompositionImportError(`${path}.step must be a number of 0 or more.`)
+  }
+  if (!NOTE_DURATIONS.includes(rest.duration as NoteDuration)) {
+    throw new CompositionImportError(
+      `${path}.duration must be one of ${NOTE_DURATIONS.join(", ")} (got ${JSON.stringify(rest.duration)}).`,
+    )
+  }
+
+  return { step: rest.step, duration: rest.duration as NoteDuration }
+}
+
+function validateNote(note: unknown, path: string): Note {
+  if (!isRecord(note)) {
+    throw new CompositionImportError(`${path} must be an object.`)
+  }
+  if (typeof note.step !== "number" || !Number.isFinite(note.step) || note.step < 0) {
+    throw new CompositionImportError(`${path}.step must be a number of 0 or more.`)
+  }
+  if (typeof note.pitch !== "string" || !PITCH_PATTERN.test(note.pitch)) {
+    throw new CompositionImportError(`${path}.pitch must be a note name like "C4" or "F#5" (got ${JSON.stringify(note.pitch)}).`)
+  }
+  if (note.duration !== undefined && !NOTE_DURATIONS.includes(note.duration as NoteDuration)) {
+    throw new CompositionImportError(
+      `${path}.duration must be one of ${NOTE_DURATIONS.join(", ")} (got ${JSON.stringify(note.duration)}).`,
+    )
+  }
+
+  if (note.dotted !== undefined && typeof note.dotted !== "boolean") {
+    throw new CompositionImportError(`${path}.dotted must be true or false.`)
+  }
+  if (note.tie !== undefined && typeof note.tie !== "boolean") {
+    throw new CompositionImportError(`${path}.tie must be true or false.`)
+  }
+  if (note.tuplet !== undefined && !isTuplet(note.tuplet)) {
+    throw new CompositionImportError(
+      `${path}.tuplet must give whole numbers of actual and normal notes, like { "actual": 3, "normal": 2 }.`,
+    )
+  }
+  if (note.slur !== undefined && typeof note.slur !== "boolean") {
+    throw new CompositionImportError(`${path}.slur must be true or false.`)
+  }
+  if (note.dynamic !== undefined && !DYNAMICS.includes(note.dynamic as Dynamic)) {
+    throw new CompositionImportError(
+      `${path}.dynamic must be one of ${DYNAMICS.join(", ")} (got ${JSON.stringify(note.dynamic)}).`,
+    )
+  }
+  if (
+    note.articulations !== undefined &&
+    (!Array.isArray(note.articulations) ||
+      !note.articulations.every((articulation) => ARTICULATIONS.includes(articulation as Articulation)))
+  ) {
+    throw new CompositionImportError(`${path}.articulations must be a list of ${ARTICULATIONS.join(", ")}.`)
+  }
+  if (note.velocity !== undefined && !isNumberBetween(note.velocity, 0, 1)) {
+    throw new CompositionImportError(`${path}.velocity must be a number from 0 to 1.`)
+  }
+
+  const result: Note = { step: note.step, pitch: note.pitch }
+  if (note.duration !== undefined) result.duration = note.duration as NoteDuration
+  if (note.dotted) result.dotted = true
+  if (note.tuplet !== undefined) result.tuplet = { actual: note.tuplet.actual, normal: note.tuplet.normal }
+  if (note.tie) result.tie = true
+  if (note.slur) result.slur = true
+  if (note.dynamic !== undefined) result.dynamic = note.dynamic as Dynamic
+  if (note.articulations?.length) result.articulations = [...new Set(note.articulations as Articulation[])]
+  if (note.velocity !== undefined) result.velocity = note.velocity
+  return result
+}
+
+function isTuplet(value: unknown): value is Tuplet {
+  return (
+    isRecord(value) &&
+    Number.isInteger(value.actual) &&
+    Number.isInteger(value.normal) &&
+    value.actual > 0 &&
+    value.normal > 0
+  )
+}
+
+function validateTimeSignature(value: unknown): TimeSignature {
+  if (
+    !isRecord(value) ||
+    typeof value.numerator !== "number" ||
+    !Number.isInteger(value.numerator) ||
+    value.numerator < 1 ||
+    typeof value.denominator !== "number" ||
+    !VALID_DENOMINATORS.includes(value.denominator)
+  ) {
+    throw new CompositionImportError('"timeSignature" must look like { "numerator": 4, "denominator": 4 }.')
+  }
+  return { numerator: value.numerator, denominator: value.denominator }
+}
+
+function isNumberBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  DYNAMIC_VELOCITIES,
+  dynamicLevel,
+  interpretNote,
+  isSlurredInto,
+  slurContinuation,
+} from "./dynamics";
+import type { Note, Track } from "./types";
+
+const track = (notes: Note[], hairpins: Track["hairpins"] = []): Track => ({
+  id: "1",
+  instrument: "violin",
+  notes,
+  hairpins,
+  volume: 0,
+  muted: false,
+});
+
+describe("dynamicLevel", () => {
+  it("plays unmarked music mezzo-forte and follows each marking until the next", () => {
+    const marked = track([
+      { step: 0, pitch: "C4" },
+      { step: 4, pitch: "D4", dynamic: "p" },
+      { step: 8, pitch: "E4", dynamic: "ff" },
+    ]);
+
+    expect(dynamicLevel(marked, 0)).toBe(DYNAMIC_VELOCITIES.mf);
+    expect(dynamicLevel(marked, 6)).toBe(DYNAMIC_VELOCITIES.p);
+    expect(dynamicLevel(marked, 10)).toBe(DYNAMIC_VELOCITIES.ff);
+  });
+
+  it("moves through a hairpin to the marking at its end", () => {
+    const swell = track(
+      [
+        { step: 0, pitch: "C4", dynamic: "p" },
+        { step: 8, pitch: "C5", dynamic: "f" },
+      ],
+      [{ type: "crescendo", start: 0, end: 8 }]
+    );
+
+    expect(dynamicLevel(swell, 0)).toBe(DYNAMIC_VELOCITIES.p);
+    expect(dynamicLevel(swell, 4)).toBeCloseTo(
+      (DYNAMIC_VELOCITIES.p + DYNAMIC_VELOCITIES.f) / 2
+    );
+    expect(dynamicLevel(swell, 8)).toBe(DYNAMIC_VELOCITIES.f);
+  });
+
+  it("stays where an unmarked hairpin arrives", () => {
+    const fade = track(
+      [{ step: 0, pitch: "C4", dynamic: "f" }],
+      [{ type: "diminuendo", start: 2, end: 6 }]
+    );
+
+    expect(dynamicLevel(fade, 2)).toBe(DYNAMIC_VELOCITIES.f);
+    expect(dynamicLevel(fade, 10)).toBeCloseTo(DYNAMIC_VELOCITIES.f - 0.15);
+  });
+});
+
+describe("slurs", () => {
+  const notes: Note[] = [
+    { step: 0, pitch: "C4", slur: true },
+    { step: 2, pitch: "E4", slur: true },
+    { step: 2, pitch: "G4" },
+    { step: 4, pitch: "F4" },
+    { step: 6, pitch: "G4" },
+  ];
+
+  it("leads each slurred note into the next one played", () => {
+    expect(slurContinuation(notes, notes[0])).toBe(notes[1]);
+    expect(slurContinuation(notes, notes[3])).toBeUndefined();
+    expect(notes.map((note) => isSlurredInto(notes, note))).toEqual([
+      false,
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+});
+
+describe("interpretNote", () => {
+  it("shortens staccatos and holds tenutos and slurred notes", () => {
+    const notes: Note[] = [
+      { step: 0, pitch: "C4", articulations: ["staccato"] },
+      { step: 2, pitch: "D4", articulations: ["tenuto"] },
+      { step: 4, pitch: "E4", slur: true },
+      { step: 6, pitch: "F4" },
+    ];
+    const played = track(notes);
+
+    expect(notes.map((note) => interpretNote(played, note).gate)).toEqual([
+      0.5, 1, 1, 0.9,
+    ]);
+  });
+
+  it("plays accents louder, slurred notes softer, and set velocities as given", () => {
+    const notes: Note[] = [
+      { step: 0, pitch: "C4", dynamic: "p", articulations: ["accent"] },
+      { step: 2, pitch: "D4", slur: true },
+      { step: 4, pitch: "E4" },
+      { step: 6, pitch: "F4", velocity: 0.95, dynamic: "pp" },
+    ];
+    const played = track(notes);
+    const velocities = notes.map(
+      (note) => interpretNote(played, note).velocity
+    );
+
+    expect(velocities[0]).toBeCloseTo(DYNAMIC_VELOCITIES.p * 1.25);
+    expect(velocities[1]).toBe(DYNAMIC_VELOCITIES.p);
+    expect(velocities[2]).toBeCloseTo(DYNAMIC_VELOCITIES.p * 0.9);
+    expect(velocities[3]).toBe(0.95);
+  });
+
+  it("sharpens the attack of accents and softens it under a slur", () => {
+    const notes: Note[] = [
+      { step: 0, pitch: "C4", articulations: ["accent"], slur: true },
+      { step: 2, pitch: "D4" },
+      { step: 4, pitch: "E4" },
+    ];
+    const played = track(notes);
+    const [accent, slurred, plain] = notes.map(
+      (note) => interpretNote(played, note).attack
+    );
+
+    expect(accent).toBeLessThan(1);
+    expect(slurred).toBeGreaterThan(1);
+    expect(plain).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Articulation, Dynamic, Hairpin, Note, Track } from "./types"
+import { STEP_EPSILON } from "./music-utils"
+
+export const DYNAMICS: Dynamic[] = ["pp", "p", "mp", "mf", "f", "ff"]
+
+export const ARTICULATIONS: Articulation[] = ["staccato", "accent", "tenuto"]
+
+// The velocity each marking plays at. Unmarked music plays mezzo-forte.
+export const DYNAMIC_VELOCITIES: Record<Dynamic, number> = { pp: 0.3, p: 0.45, mp: 0.6, mf: 0.7, f: 0.85, ff: 1 }
+export const DEFAULT_DYNAMIC: Dynamic = "mf"
+
+// How far a hairpin with no marking at its end moves the velocity
+const HAIRPIN_CHANGE = 0.15
+
+// Fraction of its written length each kind of note sounds for
+const STACCATO_GATE = 0.5
+const LEGATO_GATE = 1
+const DETACHED_GATE = 0.9
+
+// An accent is played this much louder, and a note reached under a slur this much
+// softer so it isn't attacked afresh
+const ACCENT_BOOST = 1.25
+const SLURRED_VELOCITY = 0.9
+
+// How long a note takes to speak, as a multiple of the instrument's own attack: an accent
+// strikes sharply, and a note reached under a slur swells in without a fresh onset
+const ACCENT_ATTACK = 0.25
+const SLURRED_ATTACK = 8
+
+// How a note is played: its velocity, the fraction of its length it sounds for, and
+// its attack time as a multiple of the instrument's own
+export interface NotePerformance {
+  velocity: number
+  gate: number
+  attack: number
+}
+
+// The velocity the dynamic markings and hairpins of a track give a step. Within a
+// hairpin it moves steadily toward the marking at its end, or by one level if there is none.
+export function dynamicLevel(track: Track, step: number): number {
+  const markings = track.notes
+    .filter((note): note is Note & { dynamic: Dynamic } => note.dynamic !== undefined)
+    .sort((a, b) => a.step - b.step)
+  // The last marking after `from` and at or before `to`
+  const marked = (from: number, to: number) =>
+    markings.filter((note) => note.step > from + STEP_EPSILON && note.step <= to + STEP_EPSILON).pop()
+
+  let level = DYNAMIC_VELOCITIES[DEFAULT_DYNAMIC]
+  let position = -Infinity
+  const hairpins = [...(track.hairpins ?? [])].sort((a, b) => a.start - b.start)
+  for (const hairpin of hairpins) {
+    if (hairpin.start > step + STEP_EPSILON) break
+    const start = marked(position, hairpin.start)
+    if (start) level = DYNAMIC_VELOCITIES[start.dynamic]
+
+    const target = hairpinTarget(hairpin, level, markings)
+    if (step < hairpin.end - STEP_EPSILON) {
+      return level + ((target - level) * (step - hairpin.start)) / (hairpin.end - hairpin.start)
+    }
+    level = target
+    position = hairpin.end
+  }
+
+  const latest = marked(position, step)
+  return latest ? DYNAMIC_VELOCITIES[latest.dynamic] : level
+}
+
+function hairpinTarget({ type, end }: Hairpin, from: number, markings: (Note & { dynamic: Dynamic })[]): number {
+  const direction = type === "crescendo" ? 1 : -1
+  const arrival = markings.find((note) => Math.abs(note.step - end) < STEP_EPSILON)
+  if (arrival && (DYNAMIC_VELOCITIES[arrival.dynamic] - from) * direction > 0) {
+    return DYNAMIC_VELOCITIES[arrival.dynamic]
+  }
+  return Math.min(1, Math.max(DYNAMIC_VELOCITIES.pp, from + direction * HAIRPIN_CHANGE))
+}
+
+// The step the next note after a note starts on, if any
+function nextOnset(notes: Note[], note: Note): number | undefined {
+  const later = notes.filter((other) => other.step > note.step + STEP_EPSILON).map((other) => other.step)
+  return later.length > 0 ? Math.min(...later) : undefined
+}
+
+// The note a slur from this note leads to, among those starting next
+export function slurContinuation(notes: Note[], note: Note): Note | undefined {
+  if (!note.slur) return undefined
+  const onset = nextOnset(notes, note)
+  if (onset === undefined) return undefined
+  return notes.find((other) => Math.abs(other.step - onset) < STEP_EPSILON)
+}
+
+// Whether a note is reached under a slur from an earlier one
+export function isSlurredInto(notes: Note[], note: Note): boolean {
+  return notes.some((other) => {
+    if (!other.slur || other.step >= note.step - STEP_EPSILON) return false
+    const onset = nextOnset(notes, other)
+    return onset !== undefined && Math.abs(onset - note.step) < STEP_EPSILON
+  })
+}
+
+// Interpret a note's velocity, dynamics, articulations and slurs for playback.
+// A staccato sounds for half its length, a tenuto or a note slurred onward for all
+// of it, and any other note is slightly detached. An accent is louder and sharper;
+// a note reached under a slur is softer and slower to speak.
+export function interpretNote(track: Track, note: Note): NotePerformance {
+  const articulations = note.articulations ?? []
+  const accented = articulations.includes("accent")
+  const slurred = isSlurredInto(track.notes, note)
+  let velocity = note.velocity ?? dynamicLevel(track, note.step)
+  if (accented) velocity *= ACCENT_BOOST
+  if (slurred) velocity *= SLURRED_VELOCITY
+
+  const gate = articulations.includes("staccato")
+    ? STACCATO_GATE
+    : articulations.includes("tenuto") || note.slur
+      ? LEGATO_GATE
+      : DETACHED_GATE
+  const attack = accented ? ACCENT_ATTACK : slurred ? SLURRED_ATTACK : 1
+  return { velocity: Math.min(1, velocity), gate, attack }
+}
@@ -0,0 +1,68 @@
+import type { EffectType, TrackEffect } from "./types"
+
+// A setting of an effect, with the range its slider offers
+export interface EffectParam {
+  id: string
+  label: string
+  min: number
+  max: number
+  step: number
+  default: number
+  unit?: string
+}
+
+export interface EffectDefinition {
+  name: string
+  params: EffectParam[]
+}
+
+const MIX: EffectParam = { id: "wet", label: "Mix", min: 0, max: 1, step: 0.01, default: 0.3 }
+
+const band = (id: string, label: string): EffectParam => ({
+  id,
+  label,
+  min: -24,
+  max: 12,
+  step: 1,
+  default: 0,
+  unit: "dB",
+})
+
+// The effects a track's insert chain can hold, in the order the add menu lists them
+export const EFFECTS: Record<EffectType, EffectDefinition> = {
+  reverb: {
+    name: "Reverb",
+    params: [{ id: "decay", label: "Decay", min: 0.1, max: 10, step: 0.1, default: 2.5, unit: "s" }, MIX],
+  },
+  delay: {
+    name: "Delay",
+    params: [
+      { id: "time", label: "Time", min: 0.01, max: 1, step: 0.01, default: 0.25, unit: "s" },
+      { id: "feedback", label: "Feedback", min: 0, max: 0.9, step: 0.01, default: 0.35 },
+      { ...MIX, default: 0.25 },
+    ],
+  },
+  eq: {
+    name: "EQ",
+    params: [band("low", "Low"), band("mid", "Mid"), band("high", "High")],
+  },
+  compressor: {
+    name: "Compressor",
+    params: [
+      { id: "threshold", label: "Threshold", min: -60, max: 0, step: 1, default: -24, unit: "dB" },
+      { id: "ratio", label: "Ratio", min: 1, max: 20, step: 0.5, default: 4, unit: ":1" },
+    ],
+  },
+}
+
+export const EFFECT_TYPES = Object.keys(EFFECTS) as EffectType[]
+
+// A new effect of a type with every setting at its default
+export function createEffect(type: EffectType): TrackEffect {
+  return { type, params: Object.fromEntries(EFFECTS[type].params.map((param) => [param.id, param.default])) }
+}
+
+// The value of an effect's setting, or its default when the effect was saved without it
+export function effectParam(effect: TrackEffect, id: string): number {
+  return effect.params[id] ?? EFFECTS[effect.type].params.find((param) => param.id === id)?.default ?? 0
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  GROUP_WINDOW_MS,
+  createHistory,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+  type HistoryCommand,
+} from "./history";
+
+function command(
+  before: number,
+  after: number,
+  time = 0,
+  group?: string
+): HistoryCommand<number> {
+  return { label: `set ${after}`, group, before, after, time };
+}
+
+describe("undo history", () => {
+  it("undoes and redoes commands in order", () => {
+    let history = createHistory<number>();
+    history = recordCommand(history, command(0, 1));
+    history = recordCommand(history, command(1, 2, 5000));
+
+    const first = undoCommand(history)!;
+    expect(first.command.before).toBe(1);
+    const second = undoCommand(first.history)!;
+    expect(second.command.before).toBe(0);
+    expect(undoCommand(second.history)).toBeNull();
+
+    const redone = redoCommand(second.history)!;
+    expect(redone.command.after).toBe(1);
+    expect(redone.history.past).toHaveLength(1);
+    expect(redone.history.future).toHaveLength(1);
+  });
+
+  it("drops the redo stack when a new edit is made", () => {
+    let history = recordCommand(createHistory<number>(), command(0, 1));
+    history = undoCommand(history)!.history;
+    history = recordCommand(history, command(0, 5, 5000));
+
+    expect(history.future).toHaveLength(0);
+    expect(redoCommand(history)).toBeNull();
+  });
+
+  it("merges consecutive edits from the same group", () => {
+    let history = createHistory<number>();
+    history = recordCommand(history, command(120, 121, 0, "bpm"));
+    history = recordCommand(history, command(121, 125, 200, "bpm"));
+    history = recordCommand(history, command(125, 130, 400, "bpm"));
+
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].before).toBe(120);
+    expect(history.past[0].after).toBe(130);
+
+    // A pause longer than the window starts a new step
+    history = recordCommand(
+      history,
+      command(130, 140, 400 + GROUP_WINDOW_MS + 1, "bpm")
+    );
+    expect(history.past).toHaveLength(2);
+  });
+
+  it("keeps only the most recent commands", () => {
+    let history = createHistory<number>();
+    for (let i = 0; i < 5; i++) {
+      history = recordCommand(history, command(i, i + 1, i * 5000), 3);
+    }
+
+    expect(history.past.map((c) => c.after)).toEqual([3, 4, 5]);
+  });
+});
@@ -0,0 +1,58 @@
+// Command-based undo history. Each command records the state before and after
+// one user edit, so undoing and redoing never has to re-run the edit itself.
+
+export const HISTORY_LIMIT = 100
+
+// Edits sharing a group within this window (a slider drag, say) undo as one step
+export const GROUP_WINDOW_MS = 1000
+
+export interface HistoryCommand<T> {
+  label: string
+  group?: string
+  before: T
+  after: T
+  time: number
+}
+
+export interface History<T> {
+  past: HistoryCommand<T>[]
+  future: HistoryCommand<T>[]
+}
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] }
+}
+
+// Add a command, merging it into the previous one when both belong to the same group
+export function recordCommand<T>(history: History<T>, command: HistoryCommand<T>, limit = HISTORY_LIMIT): History<T> {
+  const last = history.past[history.past.length - 1]
+
+  if (last && command.group && last.group === command.group && command.time - last.time <= GROUP_WINDOW_MS) {
+    const merged = { ...last, after: command.after, time: command.time }
+    return { past: [...history.past.slice(0, -1), merged], future: [] }
+  }
+
+  return { past: [...history.past, command].slice(-limit), future: [] }
+}
+
+// Step back one command; returns null when there is nothing to undo
+export function undoCommand<T>(history: History<T>) {
+  const command = history.past[history.past.length - 1]
+  if (!command) return null
+
+  return {
+    command,
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+  }
+}
+
+// Re-apply the most recently undone command; returns null when there is nothing to redo
+export function redoCommand<T>(history: History<T>) {
+  const command = history.future[0]
+  if (!command) return null
+
+  return {
+    command,
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+  }
+}
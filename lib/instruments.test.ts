@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  DRUM_KIT,
+  INSTRUMENT_FAMILIES,
+  INSTRUMENTS,
+  getInstrument,
+  isPlayable,
+  kitPiece,
+  kitPieceOn,
+  rangeStatus,
+  rangeViolations,
+} from "./instruments";
+import { getInstrumentClef, noteNameToMidi } from "./music-utils";
+import type { Track } from "./types";
+
+describe("instrument registry", () => {
+  it("finds instruments by id or alias, ignoring case", () => {
+    expect(getInstrument("Violin")?.id).toBe("violin");
+    expect(getInstrument("contrabass")?.id).toBe("bass");
+    expect(getInstrument("horn")?.id).toBe("french horn");
+    expect(getInstrument("kazoo")).toBeUndefined();
+  });
+
+  it("finds the instrument a longer name is made from", () => {
+    expect(getInstrument("Solo Cello")?.id).toBe("cello");
+    expect(getInstrument("fretless electric bass")?.id).toBe("bass");
+    expect(getInstrument("bass clarinet")?.id).toBe("clarinet");
+    expect(getInstrument("bassoonist")).toBeUndefined();
+  });
+
+  it("gives every family at least one instrument and every id once", () => {
+    INSTRUMENT_FAMILIES.forEach(({ id }) => {
+      expect(
+        INSTRUMENTS.some((instrument) => instrument.family === id),
+        id
+      ).toBe(true);
+    });
+    const ids = INSTRUMENTS.map(({ id }) => id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("drives the staff clef", () => {
+    expect(getInstrumentClef("viola")).toBe("treble");
+    expect(getInstrumentClef("bass")).toBe("bass");
+    expect(getInstrumentClef("bass guitar")).toBe("bass");
+    expect(getInstrumentClef("Bass Trombone")).toBe("bass");
+    expect(getInstrumentClef("unknown")).toBe("treble");
+  });
+});
+
+describe("drum kit", () => {
+  it("finds the kit piece a drum key plays, however it is spelled", () => {
+    expect(kitPiece(DRUM_KIT, "C2")?.name).toBe("Kick");
+    expect(kitPiece(DRUM_KIT, "Bb2")?.name).toBe("Open hi-hat");
+    expect(kitPiece(DRUM_KIT, "C5")).toBeUndefined();
+  });
+
+  it("picks the piece drawn nearest a line or space", () => {
+    expect(kitPieceOn(DRUM_KIT, "C5").name).toBe("Snare");
+    expect(kitPieceOn(DRUM_KIT, "G4").name).toBe("Floor tom");
+    expect(kitPieceOn(DRUM_KIT, "E6").name).toBe("Open hi-hat");
+    expect(kitPieceOn(DRUM_KIT, "C3").name).toBe("Pedal hi-hat");
+  });
+
+  it("gives every piece its own line or space and a playable key", () => {
+    const staff = DRUM_KIT.map((piece) => piece.staff);
+    expect(new Set(staff).size).toBe(staff.length);
+    DRUM_KIT.forEach((piece) => {
+      expect(isPlayable("drums", piece.pitch), piece.name).toBe(true);
+    });
+  });
+});
+
+describe("instrument ranges", () => {
+  it("keeps every comfortable range inside the playable one", () => {
+    INSTRUMENTS.forEach(
+      ({ id: instrument, range: { playable, comfortable } }) => {
+        expect(
+          noteNameToMidi(comfortable.lowest),
+          instrument
+        ).toBeGreaterThanOrEqual(noteNameToMidi(playable.lowest));
+        expect(
+          noteNameToMidi(comfortable.highest),
+          instrument
+        ).toBeLessThanOrEqual(noteNameToMidi(playable.highest));
+      }
+    );
+  });
+
+  it("sorts pitches into comfortable, playable and unplayable", () => {
+    expect(rangeStatus("tuba", "C3")).toBe("comfortable");
+    expect(rangeStatus("tuba", "Eb4")).toBe("playable");
+    expect(rangeStatus("tuba", "C6")).toBe("unplayable");
+    expect(isPlayable("tuba", "C6")).toBe(false);
+    // Instruments without a range accept anything
+    expect(rangeStatus("theremin", "C9")).toBe("comfortable");
+  });
+
+  it("lists every note outside the comfortable range", () => {
+    const tracks: Track[] = [
+      {
+        id: "1",
+        instrument: "violin",
+        volume: -10,
+        muted: false,
+        notes: [
+          { step: 4, pitch: "C3", duration: "quarter" },
+          { step: 0, pitch: "G6", duration: "quarter" },
+          { step: 2, pitch: "A4", duration: "quarter" },
+        ],
+      },
+    ];
+
+    expect(
+      rangeViolations(tracks).map(({ note, status }) => [note.pitch, status])
+    ).toEqual([
+      ["G6", "playable"],
+      ["C3", "unplayable"],
+    ]);
+  });
+});
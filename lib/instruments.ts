@@ -0,0 +1,469 @@
+import type { Note, Track } from "./types"
+import { midiToNoteName, noteNameToMidi, parsePitch } from "./music-utils"
+
+// The lowest and highest pitch of a range, both included
+export interface PitchRange {
+  lowest: string
+  highest: string
+}
+
+// Where an instrument can play, at concert pitch. The comfortable range is the part
+// of it every player reaches easily; outside it notes are strained or need an expert.
+export interface InstrumentRange {
+  playable: PitchRange
+  comfortable: PitchRange
+}
+
+export type RangeStatus = "comfortable" | "playable" | "unplayable"
+
+// A note outside the comfortable range of its track's instrument
+export interface RangeViolation {
+  track: Track
+  note: Note
+  status: Exclude<RangeStatus, "comfortable">
+  range: InstrumentRange
+}
+
+// Percussion staves show a kit piece on each line and space instead of a pitch
+export type Clef = "treble" | "bass" | "percussion"
+
+export type InstrumentFamily = "strings" | "woodwinds" | "brass" | "percussion" | "keyboard"
+
+// The built-in synthesizer voice an instrument is played with
+export type SynthRecipe = "synth" | "am" | "fm" | "mono" | "membrane"
+
+// How the part of an instrument that doesn't sound as written is notated: the number
+// of semitones above concert pitch it is written, and how players name it
+export interface InstrumentTransposition {
+  semitones: number
+  label: string
+}
+
+// A loudness the instrument was recorded at, used for notes played up to its velocity
+export interface SampleLayer {
+  name: string
+  velocity: number
+}
+
+// Recordings of an instrument bundled under public/samples/, one folder per velocity layer
+// holding a file per recorded pitch. Pitches between recordings are repitched from the nearest.
+export interface SampleSet {
+  notes: string[]
+  // From softest to loudest
+  layers: SampleLayer[]
+  // Seconds into each recording of a loop that holds the note for as long as it sounds.
+  // Plucked and struck instruments leave it out and let the recording decay.
+  loop?: { start: number; end: number }
+  // Seconds a released note takes to fade out
+  release: number
+}
+
+// How a kit piece is synthesized: drums are tuned membranes, snare and cymbals
+// are bursts of noise, brightened by a high-pass filter for the metal ones
+export type KitSound =
+  | { kind: "membrane"; pitch: string; decay: number }
+  | { kind: "noise"; noise: "white" | "pink"; decay: number; highpass?: number }
+
+// One drum or cymbal of a kit. Notes on a kit track are stored at the piece's General MIDI
+// drum key, so they export as they are, and are drawn on the piece's own line or space.
+export interface KitPiece {
+  name: string
+  // General MIDI percussion key, as a pitch name
+  pitch: string
+  // Where the piece is drawn on the percussion staff, as the treble clef pitch of that line or space
+  staff: string
+  // Cymbals are drawn with a cross for a note head
+  head: "normal" | "cross"
+  sound: KitSound
+}
+
+// A standard drum kit, from the top of the staff down
+export const DRUM_KIT: KitPiece[] = [
+  {
+    name: "Open hi-hat",
+    pitch: "A#2",
+    staff: "B5",
+    head: "cross",
+    sound: { kind: "noise", noise: "white", decay: 0.35, highpass: 7000 },
+  },
+  {
+    name: "Crash cymbal",
+    pitch: "C#3",
+    staff: "A5",
+    head: "cross",
+    sound: { kind: "noise", noise: "white", decay: 1.5, highpass: 4000 },
+  },
+  {
+    name: "Closed hi-hat",
+    pitch: "F#2",
+    staff: "G5",
+    head: "cross",
+    sound: { kind: "noise", noise: "white", decay: 0.05, highpass: 8000 },
+  },
+  {
+    name: "Ride cymbal",
+    pitch: "D#3",
+    staff: "F5",
+    head: "cross",
+    sound: { kind: "noise", noise: "pink", decay: 0.8, highpass: 5000 },
+  },
+  { name: "High tom", pitch: "D3", staff: "E5", head: "normal", sound: { kind: "membrane", pitch: "D3", decay: 0.3 } },
+  { name: "Mid tom", pitch: "B2", staff: "D5", head: "normal", sound: { kind: "membrane", pitch: "A2", decay: 0.35 } },
+  { name: "Snare", pitch: "D2", staff: "C5", head: "normal", sound: { kind: "noise", noise: "white", decay: 0.15 } },
+  {
+    name: "Floor tom",
+    pitch: "G2",
+    staff: "A4",
+    head: "normal",
+    sound: { kind: "membrane", pitch: "F2", decay: 0.45 },
+  },
+  { name: "Kick", pitch: "C2", staff: "F4", head: "normal", sound: { kind: "membrane", pitch: "C1", decay: 0.4 } },
+  {
+    name: "Pedal hi-hat",
+    pitch: "G#2",
+    staff: "D4",
+    head: "cross",
+    sound: { kind: "noise", noise: "white", decay: 0.08, highpass: 6000 },
+  },
+]
+
+// Everything the builder knows about an instrument. Adding an instrument is one entry
+// in INSTRUMENTS: the selector, track list, staff, playback and exports all read it.
+export interface Instrument {
+  id: string
+  name: string
+  family: InstrumentFamily
+  clef: Clef
+  range: InstrumentRange
+  // General MIDI program, zero based
+  program: number
+  synth: SynthRecipe
+  transposition?: InstrumentTransposition
+  // Instruments without recordings are played by their synth recipe alone
+  samples?: SampleSet
+  // Kit instruments play a different drum or cymbal for each pitch instead of one sound at many pitches
+  kit?: KitPiece[]
+  // Other names imported tracks and parts may use for the instrument
+  aliases?: string[]
+}
+
+// Families in the order the instrument selector shows them
+export const INSTRUMENT_FAMILIES: { id: InstrumentFamily; name: string }[] = [
+  { id: "strings", name: "Strings" },
+  { id: "woodwinds", name: "Woodwinds" },
+  { id: "brass", name: "Brass" },
+  { id: "percussion", name: "Percussion" },
+  { id: "keyboard", name: "Keyboard" },
+]
+
+// Every minor third from the lowest pitch to the highest, the spacing the sample sets are recorded at
+function everyMinorThird(lowest: string, highest: string): string[] {
+  const notes: string[] = []
+  for (let midi = noteNameToMidi(lowest); midi <= noteNameToMidi(highest); midi += 3) {
+    notes.push(midiToNoteName(midi))
+  }
+  return notes
+}
+
+const STRUCK_LAYERS: SampleLayer[] = [
+  { name: "p", velocity: 0.5 },
+  { name: "f", velocity: 1 },
+]
+
+function struck(lowest: string, highest: string): SampleSet {
+  return { notes: everyMinorThird(lowest, highest), layers: STRUCK_LAYERS, release: 1 }
+}
+
+export const INSTRUMENTS: Instrument[] = [
+  {
+    id: "violin",
+    name: "Violin",
+    family: "strings",
+    clef: "treble",
+    range: { playable: { lowest: "G3", highest: "A7" }, comfortable: { lowest: "G3", highest: "E6" } },
+    program: 40,
+    synth: "am",
+  },
+  {
+    id: "cello",
+    name: "Cello",
+    family: "strings",
+    clef: "bass",
+    range: { playable: { lowest: "C2", highest: "C6" }, comfortable: { lowest: "C2", highest: "A4" } },
+    program: 42,
+    synth: "am",
+  },
+  {
+    id: "viola",
+    name: "Viola",
+    family: "strings",
+    // Violas read alto clef, which the staff doesn't draw yet
+    clef: "treble",
+    range: { playable: { lowest: "C3", highest: "E6" }, comfortable: { lowest: "C3", highest: "A5" } },
+    program: 41,
+    synth: "am",
+  },
+  {
+    id: "bass",
+    name: "Double Bass",
+    family: "strings",
+    clef: "bass",
+    range: { playable: { lowest: "E1", highest: "G4" }, comfortable: { lowest: "E1", highest: "D3" } },
+    program: 43,
+    synth: "am",
+    transposition: { semitones: 12, label: "sounds an octave lower" },
+    aliases: ["double bass", "contrabass", "bass guitar", "electric bass"],
+  },
+  {
+    id: "guitar",
+    name: "Guitar",
+    family: "strings",
+    clef: "treble",
+    range: { playable: { lowest: "E2", highest: "B5" }, comfortable: { lowest: "E2", highest: "E5" } },
+    program: 24,
+    synth: "am",
+    transposition: { semitones: 12, label: "sounds an octave lower" },
+  },
+  {
+    id: "harp",
+    name: "Harp",
+    family: "strings",
+    clef: "treble",
+    range: { playable: { lowest: "C1", highest: "G7" }, comfortable: { lowest: "C2", highest: "C7" } },
+    program: 46,
+    synth: "am",
+  },
+  {
+    id: "flute",
+    name: "Flute",
+    family: "woodwinds",
+    clef: "treble",
+    range: { playable: { lowest: "C4", highest: "C7" }, comfortable: { lowest: "C4", highest: "G6" } },
+    program: 73,
+    synth: "fm",
+  },
+  {
+    id: "clarinet",
+    name: "Clarinet",
+    family: "woodwinds",
+    clef: "treble",
+    range: { playable: { lowest: "D3", highest: "Bb6" }, comfortable: { lowest: "E3", highest: "G5" } },
+    program: 71,
+    synth: "fm",
+    transposition: { semitones: 2, label: "in B♭" },
+  },
+  {
+    id: "oboe",
+    name: "Oboe",
+    family: "woodwinds",
+    clef: "treble",
+    range: { playable: { lowest: "Bb3", highest: "A6" }, comfortable: { lowest: "C4", highest: "E6" } },
+    program: 68,
+    synth: "fm",
+  },
+  {
+    id: "bassoon",
+    name: "Bassoon",
+    family: "woodwinds",
+    clef: "bass",
+    range: { playable: { lowest: "Bb1", highest: "Eb5" }, comfortable: { lowest: "Bb1", highest: "Bb4" } },
+    program: 70,
+    synth: "fm",
+  },
+  {
+    id: "trumpet",
+    name: "Trumpet",
+    family: "brass",
+    clef: "treble",
+    range: { playable: { lowest: "F#3", highest: "D6" }, comfortable: { lowest: "G3", highest: "A5" } },
+    program: 56,
+    synth: "mono",
+    transposition: { semitones: 2, label: "in B♭" },
+  },
+  {
+    id: "trombone",
+    name: "Trombone",
+    family: "brass",
+    clef: "bass",
+    range: { playable: { lowest: "E2", highest: "F5" }, comfortable: { lowest: "E2", highest: "Bb4" } },
+    program: 57,
+    synth: "mono",
+  },
+  {
+    id: "french horn",
+    name: "French Horn",
+    family: "brass",
+    clef: "treble",
+    range: { playable: { lowest: "B1", highest: "F5" }, comfortable: { lowest: "F2", highest: "C5" } },
+    program: 60,
+    synth: "mono",
+    transposition: { semitones: 7, label: "in F" },
+    aliases: ["horn"],
+  },
+  {
+    id: "tuba",
+    name: "Tuba",
+    family: "brass",
+    clef: "bass",
+    range: { playable: { lowest: "D1", highest: "F4" }, comfortable: { lowest: "F1", highest: "F3" } },
+    program: 58,
+    synth: "mono",
+  },
+  {
+    id: "drums",
+    name: "Drums",
+    family: "percussion",
+    clef: "percussion",
+    // General MIDI percussion keys, from acoustic bass drum to open triangle
+    range: { playable: { lowest: "B1", highest: "A5" }, comfortable: { lowest: "B1", highest: "A5" } },
+    program: 118,
+    // Plays keys the kit doesn't map
+    synth: "membrane",
+    kit: DRUM_KIT,
+  },
+  {
+    id: "timpani",
+    name: "Timpani",
+    family: "percussion",
+    clef: "bass",
+    range: { playable: { lowest: "D2", highest: "C4" }, comfortable: { lowest: "F2", highest: "A3" } },
+    program: 47,
+    synth: "membrane",
+  },
+  {
+    id: "xylophone",
+    name: "Xylophone",
+    family: "percussion",
+    clef: "treble",
+    range: { playable: { lowest: "F4", highest: "C8" }, comfortable: { lowest: "F4", highest: "C8" } },
+    program: 13,
+    synth: "membrane",
+    transposition: { semitones: -12, label: "sounds an octave higher" },
+  },
+  {
+    id: "marimba",
+    name: "Marimba",
+    family: "percussion",
+    clef: "treble",
+    range: { playable: { lowest: "C2", highest: "C7" }, comfortable: { lowest: "C2", highest: "C7" } },
+    program: 12,
+    synth: "membrane",
+  },
+  {
+    id: "piano",
+    name: "Piano",
+    family: "keyboard",
+    // Piano music uses both staves; the single staff shows the right hand's
+    clef: "treble",
+    range: { playable: { lowest: "A0", highest: "C8" }, comfortable: { lowest: "A0", highest: "C8" } },
+    program: 0,
+    synth: "synth",
+    samples: struck("A0", "C8"),
+  },
+  {
+    id: "organ",
+    name: "Organ",
+    family: "keyboard",
+    clef: "treble",
+    range: { playable: { lowest: "C2", highest: "C7" }, comfortable: { lowest: "C2", highest: "C7" } },
+    program: 19,
+    synth: "synth",
+  },
+  {
+    id: "harpsichord",
+    name: "Harpsichord",
+    family: "keyboard",
+    clef: "treble",
+    range: { playable: { lowest: "F1", highest: "F6" }, comfortable: { lowest: "F1", highest: "F6" } },
+    program: 6,
+    synth: "synth",
+  },
+  {
+    id: "synthesizer",
+    name: "Synthesizer",
+    family: "keyboard",
+    clef: "treble",
+    range: { playable: { lowest: "C0", highest: "C8" }, comfortable: { lowest: "C1", highest: "C7" } },
+    program: 80,
+    synth: "synth",
+  },
+]
+
+// Find an instrument by id or by one of its other names, ignoring case. Any other name,
+// such as "solo cello", finds the instrument with the longest name it contains as words.
+export function getInstrument(name: string): Instrument | undefined {
+  const normalized = name.toLowerCase()
+  const exact = INSTRUMENTS.find(
+    (instrument) => instrument.id === normalized || instrument.aliases?.includes(normalized),
+  )
+  if (exact) return exact
+
+  const words = ` ${normalized} `
+  const contained = INSTRUMENTS.flatMap((instrument) =>
+    [instrument.id, ...(instrument.aliases ?? [])]
+      .filter((other) => words.includes(` ${other} `))
+      .map((other) => ({ instrument, length: other.length })),
+  )
+  return contained.sort((a, b) => b.length - a.length)[0]?.instrument
+}
+
+function inRange(midi: number, { lowest, highest }: PitchRange) {
+  return midi >= noteNameToMidi(lowest) && midi <= noteNameToMidi(highest)
+}
+
+// Where a concert pitch falls in an instrument's range. Instruments without an
+// entry accept any pitch.
+export function rangeStatus(instrument: string, pitch: string): RangeStatus {
+  const range = getInstrument(instrument)?.range
+  if (!range) return "comfortable"
+  const midi = noteNameToMidi(pitch)
+  if (!inRange(midi, range.playable)) return "unplayable"
+  return inRange(midi, range.comfortable) ? "comfortable" : "playable"
+}
+
+// Whether an instrument can play a pitch at all
+export function isPlayable(instrument: string, pitch: string): boolean {
+  return rangeStatus(instrument, pitch) !== "unplayable"
+}
+
+// A range written out for messages, e.g. "D1–F4"
+export function describeRange({ lowest, highest }: PitchRange): string {
+  return `${lowest}–${highest}`
+}
+
+// Every note in the score outside its instrument's comfortable range, track by track in score order
+export function rangeViolations(tracks: Track[]): RangeViolation[] {
+  return tracks.flatMap((track) => {
+    const range = getInstrument(track.instrument)?.range
+    if (!range) return []
+    return [...track.notes]
+      .sort((a, b) => a.step - b.step)
+      .flatMap((note): RangeViolation[] => {
+        const status = rangeStatus(track.instrument, note.pitch)
+        return status === "comfortable" ? [] : [{ track, note, status, range }]
+      })
+  })
+}
+
+// Lines and spaces above middle C, the way the staff counts them
+function diatonicPosition(pitch: string): number {
+  const { letter, octave } = parsePitch(pitch)
+  return (octave - 4) * 7 + "CDEFGAB".indexOf(letter)
+}
+
+// The kit piece a note plays. Notes at keys the kit doesn't map, such as ones placed
+// before the kit existed, have none.
+export function kitPiece(kit: KitPiece[], pitch: string): KitPiece | undefined {
+  const midi = noteNameToMidi(pitch)
+  return kit.find((piece) => noteNameToMidi(piece.pitch) === midi)
+}
+
+// The kit piece drawn nearest to a line or space of the staff, given as its treble clef pitch
+export function kitPieceOn(kit: KitPiece[], staff: string): KitPiece {
+  const position = diatonicPosition(staff)
+  return kit.reduce((nearest, piece) =>
+    Math.abs(diatonicPosition(piece.staff) - position) < Math.abs(diatonicPosition(nearest.staff) - position)
+      ? piece
+      : nearest,
+  )
+}
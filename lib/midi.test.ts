@@ -0,0 +1,308 @@
+import { describe, it, expect } from "vitest";
+import {
+  PPQ,
+  TICKS_PER_STEP,
+  decibelsToChannelVolume,
+  exportMidi,
+  gmProgramFor,
+  importMidi,
+  instrumentForProgram,
+} from "./midi";
+import { CompositionImportError } from "./composition";
+import type { Composition } from "./types";
+
+// Split a file into its chunks so tests can look inside individual tracks
+function readChunks(bytes: Uint8Array) {
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const type = String.fromCharCode(...bytes.slice(offset, offset + 4));
+    const length =
+      (bytes[offset + 4] << 24) |
+      (bytes[offset + 5] << 16) |
+      (bytes[offset + 6] << 8) |
+      bytes[offset + 7];
+    chunks.push({ type, data: bytes.slice(offset + 8, offset + 8 + length) });
+    offset += 8 + length;
+  }
+  return chunks;
+}
+
+function contains(haystack: Uint8Array, needle: number[]) {
+  for (let i = 0; i <= haystack.length - needle.length; i++) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) return true;
+  }
+  return false;
+}
+
+describe("MIDI export", () => {
+  const composition: Composition = {
+    tracks: [
+      {
+        id: "1",
+        instrument: "violin",
+        notes: [
+          { step: 0, pitch: "C4", duration: "quarter" },
+          { step: 2, pitch: "E4" },
+        ],
+        volume: 0,
+        muted: false,
+      },
+      {
+        id: "2",
+        instrument: "cello",
+        notes: [{ step: 4, pitch: "C3", duration: "whole" }],
+        volume: -12,
+        muted: true,
+      },
+    ],
+    bpm: 120,
+    key: "C",
+    scale: "major",
+    timeSignature: { numerator: 3, denominator: 4 },
+    totalSteps: 12,
+  };
+
+  it("writes a Type 1 header with a conductor track plus one track per builder track", () => {
+    const chunks = readChunks(exportMidi(composition));
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual([
+      "MThd",
+      "MTrk",
+      "MTrk",
+      "MTrk",
+    ]);
+    const header = chunks[0].data;
+    expect((header[0] << 8) | header[1]).toBe(1);
+    expect((header[2] << 8) | header[3]).toBe(3);
+    expect((header[4] << 8) | header[5]).toBe(PPQ);
+  });
+
+  it("writes tempo and time signature to the conductor track", () => {
+    const conductor = readChunks(exportMidi(composition))[1].data;
+
+    // 500000 microseconds per quarter note is 120 BPM
+    expect(contains(conductor, [0xff, 0x51, 0x03, 0x07, 0xa1, 0x20])).toBe(true);
+    expect(contains(conductor, [0xff, 0x58, 0x04, 3, 2, 24, 8])).toBe(true);
+  });
+
+  it("chooses a General MIDI program from the instrument", () => {
+    const chunks = readChunks(exportMidi(composition));
+
+    expect(contains(chunks[2].data, [0xc0, gmProgramFor("violin")])).toBe(true);
+    expect(contains(chunks[3].data, [0xc1, gmProgramFor("cello")])).toBe(true);
+    expect(gmProgramFor("violin")).toBe(40);
+    expect(gmProgramFor("kazoo")).toBe(0);
+  });
+
+  it("converts steps and durations into ticks", () => {
+    const violin = readChunks(exportMidi(composition))[2].data;
+
+    // C4 on at tick 0, off one quarter later; E4 (default eighth) starts on step 2
+    expect(contains(violin, [0x00, 0x90, 60, 100])).toBe(true);
+    expect(TICKS_PER_STEP * 2).toBe(PPQ);
+    expect(contains(violin, [0x83, 0x60, 0x80, 60, 0])).toBe(true);
+    expect(contains(violin, [0x00, 0x90, 64, 100])).toBe(true);
+  });
+
+  it("holds tied notes as one note for their combined length", () => {
+    const tied: Composition = {
+      ...composition,
+      tracks: [
+        {
+          ...composition.tracks[0],
+          notes: [
+            {
+              step: 0,
+              pitch: "C4",
+              duration: "quarter",
+              dotted: true,
+              tie: true,
+            },
+            { step: 3, pitch: "C4", duration: "eighth" },
+          ],
+        },
+      ],
+    };
+    const violin = readChunks(exportMidi(tied))[2].data;
+
+    // One note on, released straight after a dotted quarter plus an eighth (960 ticks)
+    expect(contains(violin, [0x90, 60, 100, 0x87, 0x40, 0x80, 60, 0])).toBe(
+      true
+    );
+  });
+
+  it("writes each note at the velocity its dynamics and accents give it", () => {
+    const marked: Composition = {
+      ...composition,
+      tracks: [
+        {
+          ...composition.tracks[0],
+          notes: [
+            { step: 0, pitch: "C4", dynamic: "p" },
+            { step: 2, pitch: "D4", dynamic: "f" },
+            { step: 4, pitch: "E4", articulations: ["accent"] },
+          ],
+        },
+      ],
+    };
+    const violin = readChunks(exportMidi(marked))[2].data;
+
+    // Unmarked notes are written at 100, so piano is 100 * 0.45 / 0.7
+    expect(contains(violin, [0x90, 60, 64])).toBe(true);
+    expect(contains(violin, [0x90, 62, 121])).toBe(true);
+    // An accent on forte goes past the top of the range
+    expect(contains(violin, [0x90, 64, 127])).toBe(true);
+  });
+
+  it("maps volume and mute onto channel volume", () => {
+    const chunks = readChunks(exportMidi(composition));
+
+    expect(contains(chunks[2].data, [0xb0, 7, 127])).toBe(true);
+    expect(contains(chunks[3].data, [0xb1, 7, 0])).toBe(true);
+    expect(decibelsToChannelVolume(-12)).toBe(64);
+  });
+});
+
+describe("MIDI drum export", () => {
+  const composition: Composition = {
+    tracks: [
+      {
+        id: "1",
+        instrument: "piano",
+        notes: [{ step: 0, pitch: "C4" }],
+        volume: 0,
+        muted: false,
+      },
+      {
+        id: "2",
+        instrument: "drums",
+        notes: [
+          { step: 0, pitch: "C2" },
+          { step: 0, pitch: "F#2" },
+          { step: 2, pitch: "D2" },
+        ],
+        volume: 0,
+        muted: false,
+      },
+    ],
+    bpm: 120,
+    key: "C",
+    scale: "major",
+    timeSignature: { numerator: 4, denominator: 4 },
+    totalSteps: 16,
+  };
+
+  it("plays kit tracks on the percussion channel at their drum keys", () => {
+    const drums = readChunks(exportMidi(composition))[3].data;
+
+    expect(contains(drums, [0x99, 36, 100])).toBe(true);
+    expect(contains(drums, [0x99, 42, 100])).toBe(true);
+    expect(contains(drums, [0x99, 38, 100])).toBe(true);
+    // The percussion channel has no program change
+    expect(drums.some((byte) => (byte & 0xf0) === 0xc0)).toBe(false);
+  });
+
+  it("reads the kit back from the percussion channel", () => {
+    const result = importMidi(exportMidi(composition));
+
+    expect(result.tracks[1].instrument).toBe("drums");
+    expect(result.tracks[1].notes.map((note) => note.pitch)).toEqual([
+      "C2",
+      "F#2",
+      "D2",
+    ]);
+  });
+});
+
+describe("MIDI import", () => {
+  const composition: Composition = {
+    tracks: [
+      {
+        id: "1",
+        instrument: "flute",
+        notes: [
+          { step: 0, pitch: "C5", duration: "quarter" },
+          { step: 2, pitch: "D5", duration: "eighth" },
+          { step: 3, pitch: "E5", duration: "half" },
+        ],
+        volume: 0,
+        muted: false,
+      },
+      {
+        id: "2",
+        instrument: "tuba",
+        notes: [{ step: 8, pitch: "F2", duration: "whole" }],
+        volume: -12,
+        muted: false,
+      },
+    ],
+    bpm: 90,
+    key: "C",
+    scale: "major",
+    timeSignature: { numerator: 6, denominator: 8 },
+    totalSteps: 18,
+  };
+
+  it("reads back what exportMidi writes", () => {
+    const result = importMidi(exportMidi(composition));
+
+    expect(result.tracks).toHaveLength(2);
+    expect(result.tracks[0].instrument).toBe("flute");
+    expect(result.tracks[0].notes).toEqual(composition.tracks[0].notes);
+    expect(result.tracks[1].instrument).toBe("tuba");
+    expect(result.tracks[1].notes).toEqual(composition.tracks[1].notes);
+    expect(result.tracks[1].volume).toBe(-12);
+    expect(result.bpm).toBe(90);
+    expect(result.timeSignature).toEqual({ numerator: 6, denominator: 8 });
+    // The whole note ends on step 16, rounded up to a full 6/8 measure
+    expect(result.totalSteps).toBe(18);
+  });
+
+  it("splits format 0 files by channel and understands running status", () => {
+    // PPQ 96; one track with two channels, the second note-on using running status
+    const track = [
+      0x00, 0xc0, 0x49, // flute program on channel 0
+      0x00, 0xc1, 0x20, // acoustic bass program on channel 1
+      0x00, 0x90, 72, 80, // C5 on
+      0x00, 0x91, 36, 80, // C2 on
+      0x30, 0x90, 72, 0, // C5 off after an eighth (48 ticks)
+      0x00, 74, 80, // running status: D5 on
+      0x30, 0x80, 74, 0, // D5 off
+      0x00, 0x81, 36, 0, // C2 off after a quarter
+      0x00, 0xff, 0x2f, 0x00,
+    ];
+    const bytes = new Uint8Array([
+      ...[0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0, 96],
+      ...[0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, track.length],
+      ...track,
+    ]);
+
+    const result = importMidi(bytes);
+
+    expect(result.tracks.map((t) => t.instrument)).toEqual(["flute", "bass"]);
+    expect(result.tracks[0].notes).toEqual([
+      { step: 0, pitch: "C5", duration: "eighth" },
+      { step: 1, pitch: "D5", duration: "eighth" },
+    ]);
+    expect(result.tracks[1].notes).toEqual([
+      { step: 0, pitch: "C2", duration: "quarter" },
+    ]);
+    // No tempo or time signature events means the defaults
+    expect(result.bpm).toBe(120);
+    expect(result.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+  });
+
+  it("picks the closest instrument for programs the builder does not offer", () => {
+    expect(instrumentForProgram(40)).toBe("violin");
+    expect(instrumentForProgram(48)).toBe("violin"); // string ensemble
+    expect(instrumentForProgram(65)).toBe("clarinet"); // alto sax
+    expect(instrumentForProgram(2)).toBe("piano");
+  });
+
+  it("rejects files that are not MIDI", () => {
+    const bytes = new TextEncoder().encode('{"tracks": []}');
+
+    expect(() => importMidi(bytes)).toThrow(CompositionImportError);
+  });
+});
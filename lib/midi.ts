@@ -0,0 +1,488 @@
+import type { Composition, Note, NoteDuration, TimeSignature, Track } from "./types"
+import {
+  KEY_SIGNATURES,
+  isTiedInto,
+  midiToNoteName,
+  noteNameToMidi,
+  noteSteps,
+  stepsPerMeasure,
+  tieChain,
+} from "./music-utils"
+import { CompositionImportError, DEFAULT_TOTAL_STEPS, NOTE_DURATIONS } from "./composition"
+import { INSTRUMENTS, getInstrument } from "./instruments"
+import { DEFAULT_DYNAMIC, DYNAMIC_VELOCITIES, interpretNote } from "./dynamics"
+
+// Ticks per quarter note written into the file header
+export const PPQ = 480
+
+// Each sequencer step is an eighth note ("8n" in createSequence)
+export const TICKS_PER_STEP = PPQ / 2
+
+export const DURATION_TICKS: Record<NoteDuration, number> = {
+  whole: PPQ * 4,
+  half: PPQ * 2,
+  quarter: PPQ,
+  eighth: PPQ / 2,
+  sixteenth: PPQ / 4,
+}
+
+// Closest builder instrument for each General MIDI family of eight programs
+const GM_FAMILY_INSTRUMENTS = [
+  "piano", // pianos
+  "xylophone", // chromatic percussion
+  "organ",
+  "guitar",
+  "bass",
+  "violin", // strings
+  "violin", // ensembles
+  "trumpet", // brass
+  "clarinet", // reeds
+  "flute", // pipes
+  "synthesizer", // synth leads
+  "synthesizer", // synth pads
+  "synthesizer", // synth effects
+  "guitar", // ethnic
+  "drums", // percussive
+  "synthesizer", // sound effects
+]
+
+// The velocity unmarked notes are written at. Dynamics, hairpins and accents move
+// a note's velocity from here in proportion to how they move it in playback.
+const DEFAULT_VELOCITY = 100
+const PERCUSSION_CHANNEL = 9
+
+// Key signature meta events store sharps as positive and flats as negative counts
+const SHARP_KEYS = ["C", "G", "D", "A", "E", "B", "F#", "C#"]
+const FLAT_KEYS = ["C", "F", "Bb", "Eb", "Ab", "Db", "Gb", "Cb"]
+
+interface MidiEvent {
+  tick: number
+  // Lower numbers sort first when events share a tick (note offs before note ons)
+  order: number
+  data: number[]
+}
+
+// Get the General MIDI program for an instrument, falling back to acoustic grand piano
+export function gmProgramFor(instrument: string): number {
+  return getInstrument(instrument)?.program ?? 0
+}
+
+// Pick the builder instrument closest to a General MIDI program
+export function instrumentForProgram(program: number): string {
+  const exact = INSTRUMENTS.find((instrument) => instrument.program === program)
+  return exact?.id ?? GM_FAMILY_INSTRUMENTS[clamp(program, 0, 127) >> 3]
+}
+
+// Convert a track volume in decibels to a channel volume (CC7) value.
+// GM maps CC7 to gain as 40 * log10(value / 127), so invert that curve.
+export function decibelsToChannelVolume(db: number): number {
+  return clamp(Math.round(127 * Math.pow(10, db / 40)), 0, 127)
+}
+
+// Write a composition as a Type 1 Standard MIDI File: a conductor track with
+// tempo and time signature, followed by one track per builder track. Kit tracks
+// play on the General MIDI percussion channel, where each key is a drum.
+export function exportMidi(composition: Composition): Uint8Array {
+  const chunks = [encodeTrack(conductorEvents(composition))]
+
+  composition.tracks.forEach((track, index) => {
+    const channel = getInstrument(track.instrument)?.kit ? PERCUSSION_CHANNEL : channelFor(index)
+    chunks.push(encodeTrack(trackEvents(track, channel)))
+  })
+
+  const header = [
+    ...ascii("MThd"),
+    ...uint32(6),
+    ...uint16(1), // format 1: simultaneous tracks
+    ...uint16(chunks.length),
+    ...uint16(PPQ),
+  ]
+
+  return new Uint8Array([...header, ...chunks.flat()])
+}
+
+interface ParsedNote {
+  channel: number
+  key: number
+  start: number
+  end: number
+}
+
+interface ParsedTrack {
+  name?: string
+  notes: ParsedNote[]
+  programs: Map<number, number>
+  channelVolumes: Map<number, number>
+}
+
+interface ParsedFile {
+  format: number
+  division: number
+  tracks: ParsedTrack[]
+  tempo?: number
+  timeSignature?: TimeSignature
+  key?: string
+}
+
+// Read a Standard MIDI File into builder tracks. Each MIDI track that has notes becomes
+// a Track (format 0 files are split by channel), with notes quantized onto the step grid.
+export function importMidi(bytes: Uint8Array): Composition {
+  const file = readMidiFile(bytes)
+  const ticksPerStep = file.division / 2
+  const timeSignature = file.timeSignature ?? { numerator: 4, denominator: 4 }
+
+  // Format 0 puts every channel in one track, so give each channel its own track
+  const sources =
+    file.format === 0
+      ? file.tracks.flatMap((track) =>
+          [...new Set(track.notes.map((note) => note.channel))]
+            .sort((a, b) => a - b)
+            .map((channel) => ({
+              ...track,
+              notes: track.notes.filter((note) => note.channel === channel),
+            })),
+        )
+      : file.tracks
+
+  const tracks: Track[] = []
+  let lastStep = 0
+
+  sources.forEach((source) => {
+    if (source.notes.length === 0) return
+
+    const channel = source.notes[0].channel
+    const program = source.programs.get(channel)
+    const name = source.name?.trim().toLowerCase() ?? ""
+    // Without a program change, fall back to a track named after one of our instruments
+    const instrument =
+      channel === PERCUSSION_CHANNEL
+        ? "drums"
+        : program !== undefined
+          ? instrumentForProgram(program)
+          : (getInstrument(name)?.id ?? "piano")
+    const channelVolume = source.channelVolumes.get(channel)
+
+    const notes: Note[] = []
+    source.notes.forEach((parsed) => {
+      const step = Math.round(parsed.start / ticksPerStep)
+      const pitch = midiToNoteName(parsed.key)
+      if (notes.some((note) => note.step === step && note.pitch === pitch)) return
+
+      const duration = nearestDuration(((parsed.end - parsed.start) * PPQ) / file.division)
+      notes.push({ step, pitch, duration })
+      lastStep = Math.max(lastStep, step + Math.max(1, DURATION_TICKS[duration] / TICKS_PER_STEP))
+    })
+
+    tracks.push({
+      id: String(tracks.length + 1),
+      instrument,
+      notes: notes.sort((a, b) => a.step - b.step),
+      volume: channelVolume ? Math.round(40 * Math.log10(channelVolume / 127)) : 0,
+      muted: channelVolume === 0,
+    })
+  })
+
+  if (tracks.length === 0) {
+    throw new CompositionImportError("The MIDI file does not contain any notes.")
+  }
+
+  const measure = stepsPerMeasure(timeSignature)
+
+  return {
+    tracks,
+    bpm: file.tempo ? Math.round(60_000_000 / file.tempo) : 120,
+    key: file.key ?? "C",
+    scale: "major",
+    timeSignature,
+    totalSteps: Math.max(DEFAULT_TOTAL_STEPS, Math.ceil(lastStep / measure) * measure),
+  }
+}
+
+// Snap a length in ticks (at PPQ resolution) to the nearest note value
+function nearestDuration(ticks: number): NoteDuration {
+  const length = Math.max(1, ticks)
+  return NOTE_DURATIONS.reduce((best, duration) =>
+    Math.abs(Math.log2(length / DURATION_TICKS[duration])) < Math.abs(Math.log2(length / DURATION_TICKS[best]))
+      ? duration
+      : best,
+  )
+}
+
+function readMidiFile(bytes: Uint8Array): ParsedFile {
+  const reader = new ByteReader(bytes)
+
+  if (reader.ascii(4) !== "MThd") {
+    throw new CompositionImportError("The file is not a Standard MIDI File.")
+  }
+  const headerLength = reader.uint32()
+  const format = reader.uint16()
+  const trackCount = reader.uint16()
+  const division = reader.uint16()
+  reader.skip(headerLength - 6)
+
+  if (format > 1) {
+    throw new CompositionImportError(`MIDI format ${format} files are not supported, only formats 0 and 1.`)
+  }
+  if (division & 0x8000) {
+    throw new CompositionImportError("MIDI files timed in SMPTE frames are not supported.")
+  }
+
+  const file: ParsedFile = { format, division, tracks: [] }
+
+  for (let i = 0; i < trackCount && !reader.done(); i++) {
+    const type = reader.ascii(4)
+    const length = reader.uint32()
+    const end = reader.offset + length
+    if (type === "MTrk") {
+      file.tracks.push(readTrack(reader, end, file))
+    }
+    reader.offset = end
+  }
+
+  return file
+}
+
+function readTrack(reader: ByteReader, end: number, file: ParsedFile): ParsedTrack {
+  const track: ParsedTrack = { notes: [], programs: new Map(), channelVolumes: new Map() }
+  const open = new Map<number, number[]>()
+  let tick = 0
+  let runningStatus = 0
+
+  const closeNote = (channel: number, key: number) => {
+    const starts = open.get((channel << 7) | key)
+    const start = starts?.shift()
+    if (start !== undefined) track.notes.push({ channel, key, start, end: tick })
+  }
+
+  while (reader.offset < end) {
+    tick += reader.variableLength()
+
+    let status = reader.uint8()
+    if (status < 0x80) {
+      // Running status: reuse the previous status byte for this data byte
+      if (!runningStatus) throw new CompositionImportError("The MIDI file is corrupt.")
+      reader.offset--
+      status = runningStatus
+    }
+
+    if (status === 0xff) {
+      const type = reader.uint8()
+      const data = reader.bytes(reader.variableLength())
+      if (type === 0x03 && track.name === undefined) {
+        track.name = String.fromCharCode(...data)
+      } else if (type === 0x51 && file.tempo === undefined) {
+        file.tempo = (data[0] << 16) | (data[1] << 8) | data[2]
+      } else if (type === 0x58 && file.timeSignature === undefined) {
+        file.timeSignature = { numerator: data[0], denominator: Math.pow(2, data[1]) }
+      } else if (type === 0x59 && file.key === undefined && data[1] === 0) {
+        const sharpsOrFlats = (data[0] << 24) >> 24
+        const key = sharpsOrFlats >= 0 ? SHARP_KEYS[sharpsOrFlats] : FLAT_KEYS[-sharpsOrFlats]
+        if (key && KEY_SIGNATURES[key]) file.key = key
+      } else if (type === 0x2f) {
+        break
+      }
+      continue
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.variableLength())
+      continue
+    }
+
+    runningStatus = status
+    const channel = status & 0x0f
+    switch (status & 0xf0) {
+      case 0x90: {
+        const key = reader.uint8()
+        const velocity = reader.uint8()
+        if (velocity === 0) {
+          closeNote(channel, key)
+        } else {
+          const id = (channel << 7) | key
+          open.set(id, [...(open.get(id) ?? []), tick])
+        }
+        break
+      }
+      case 0x80:
+        closeNote(channel, reader.uint8())
+        reader.uint8()
+        break
+      case 0xb0: {
+        const controller = reader.uint8()
+        const value = reader.uint8()
+        if (controller === 7 && !track.channelVolumes.has(channel)) track.channelVolumes.set(channel, value)
+        break
+      }
+      case 0xc0: {
+        const program = reader.uint8()
+        if (!track.programs.has(channel)) track.programs.set(channel, program)
+        break
+      }
+      case 0xd0:
+        reader.uint8()
+        break
+      default:
+        // Polyphonic aftertouch and pitch bend both carry two data bytes
+        reader.skip(2)
+    }
+  }
+
+  // Notes that were never released last until the end of the track
+  open.forEach((starts, id) => starts.forEach((start) => track.notes.push({ channel: id >> 7, key: id & 0x7f, start, end: tick })))
+  track.notes.sort((a, b) => a.start - b.start || a.key - b.key)
+
+  return track
+}
+
+class ByteReader {
+  offset = 0
+
+  constructor(private data: Uint8Array) {}
+
+  done() {
+    return this.offset >= this.data.length
+  }
+
+  uint8() {
+    if (this.offset >= this.data.length) {
+      throw new CompositionImportError("The MIDI file ends unexpectedly.")
+    }
+    return this.data[this.offset++]
+  }
+
+  uint16() {
+    return (this.uint8() << 8) | this.uint8()
+  }
+
+  uint32() {
+    return ((this.uint16() << 16) | this.uint16()) >>> 0
+  }
+
+  variableLength() {
+    let value = 0
+    let byte
+    do {
+      byte = this.uint8()
+      value = (value << 7) | (byte & 0x7f)
+    } while (byte & 0x80)
+    return value
+  }
+
+  bytes(length: number) {
+    const slice = this.data.slice(this.offset, this.offset + length)
+    this.skip(length)
+    return Array.from(slice)
+  }
+
+  ascii(length: number) {
+    return String.fromCharCode(...this.bytes(length))
+  }
+
+  skip(length: number) {
+    if (this.offset + length > this.data.length) {
+      throw new CompositionImportError("The MIDI file ends unexpectedly.")
+    }
+    this.offset += length
+  }
+}
+
+function conductorEvents(composition: Composition): MidiEvent[] {
+  const { numerator, denominator } = composition.timeSignature
+  const microsecondsPerQuarter = Math.round(60_000_000 / composition.bpm)
+
+  return [
+    { tick: 0, order: 0, data: [0xff, 0x03, ...lengthPrefixed(ascii("Orchestra Builder"))] },
+    {
+      tick: 0,
+      order: 0,
+      data: [0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff],
+    },
+    // Numerator, log2(denominator), MIDI clocks per metronome click, 32nds per quarter
+    { tick: 0, order: 0, data: [0xff, 0x58, 0x04, numerator, Math.log2(denominator), 24, 8] },
+    { tick: composition.totalSteps * TICKS_PER_STEP, order: 2, data: [0xff, 0x2f, 0x00] },
+  ]
+}
+
+function trackEvents(track: Track, channel: number): MidiEvent[] {
+  // CC7 tops out at unity gain, so any boost above 0 dB is carried on the note velocity
+  const boost = Math.pow(10, Math.max(0, track.volume) / 40)
+  const channelVolume = track.muted ? 0 : decibelsToChannelVolume(track.volume)
+
+  const events: MidiEvent[] = [
+    { tick: 0, order: 0, data: [0xff, 0x03, ...lengthPrefixed(ascii(track.instrument))] },
+    // The percussion channel has no programs; its kit is fixed
+    ...(channel === PERCUSSION_CHANNEL
+      ? []
+      : [{ tick: 0, order: 0, data: [0xc0 | channel, gmProgramFor(track.instrument)] }]),
+    { tick: 0, order: 0, data: [0xb0 | channel, 7, channelVolume] },
+  ]
+
+  let endTick = 0
+  track.notes.forEach((note) => {
+    // A tied note sounds once, for the length of everything it is tied into
+    if (isTiedInto(track.notes, note)) return
+
+    const start = Math.round(note.step * TICKS_PER_STEP)
+    const steps = tieChain(track.notes, note).reduce((sum, tied) => sum + noteSteps(tied), 0)
+    const end = start + Math.round(steps * TICKS_PER_STEP)
+    const key = clamp(noteNameToMidi(note.pitch), 0, 127)
+    const level = interpretNote(track, note).velocity / DYNAMIC_VELOCITIES[DEFAULT_DYNAMIC]
+    const velocity = clamp(Math.round(DEFAULT_VELOCITY * level * boost), 1, 127)
+
+    events.push({ tick: start, order: 1, data: [0x90 | channel, key, velocity] })
+    events.push({ tick: end, order: 0, data: [0x80 | channel, key, 0] })
+    endTick = Math.max(endTick, end)
+  })
+
+  events.push({ tick: endTick, order: 2, data: [0xff, 0x2f, 0x00] })
+  return events
+}
+
+function encodeTrack(events: MidiEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order)
+
+  const body: number[] = []
+  let lastTick = 0
+  sorted.forEach((event) => {
+    body.push(...variableLength(event.tick - lastTick), ...event.data)
+    lastTick = event.tick
+  })
+
+  return [...ascii("MTrk"), ...uint32(body.length), ...body]
+}
+
+// Give each track its own channel, skipping the General MIDI percussion channel
+function channelFor(trackIndex: number): number {
+  const channel = trackIndex % 15
+  return channel >= PERCUSSION_CHANNEL ? channel + 1 : channel
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f]
+  let remaining = value >> 7
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80)
+    remaining >>= 7
+  }
+  return bytes
+}
+
+function lengthPrefixed(bytes: number[]): number[] {
+  return [...variableLength(bytes.length), ...bytes]
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0) & 0x7f)
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff]
+}
+
+function uint32(value: number): number[] {
+  return [(value >> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
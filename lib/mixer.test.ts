@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  PEAK_HOLD_MS,
+  isAudible,
+  meterPercent,
+  readMeter,
+  samplePeak,
+  toggleSolo,
+} from "./mixer";
+import type { Track } from "./types";
+
+const track = (id: string, changes: Partial<Track> = {}): Track => ({
+  id,
+  instrument: "piano",
+  notes: [],
+  volume: 0,
+  muted: false,
+  ...changes,
+});
+
+describe("solo and mute", () => {
+  it("hears every unmuted track until one is soloed", () => {
+    const tracks = [track("1"), track("2", { muted: true }), track("3")];
+    expect(tracks.map((t) => isAudible(t, tracks))).toEqual([
+      true,
+      false,
+      true,
+    ]);
+
+    const soloed = [...tracks.slice(0, 2), track("3", { solo: true })];
+    expect(soloed.map((t) => isAudible(t, soloed))).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("keeps a muted track silent even when soloed", () => {
+    const tracks = [track("1", { muted: true, solo: true }), track("2")];
+    expect(tracks.map((t) => isAudible(t, tracks))).toEqual([false, false]);
+  });
+
+  it("solos one track at a time unless adding to the solo", () => {
+    const tracks = [track("1", { solo: true }), track("2"), track("3")];
+
+    const exclusive = toggleSolo(tracks, "2");
+    expect(exclusive.map((t) => !!t.solo)).toEqual([false, true, false]);
+    expect(exclusive[0]).not.toHaveProperty("solo");
+
+    const added = toggleSolo(tracks, "3", true);
+    expect(added.map((t) => !!t.solo)).toEqual([true, false, true]);
+
+    expect(toggleSolo(added, "1").map((t) => !!t.solo)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+});
+
+describe("meters", () => {
+  it("holds the sample peak while following the RMS level", () => {
+    const loud = readMeter(undefined, { rms: -12, peak: -6 }, 0);
+    const quieter = readMeter(loud, { rms: -20, peak: -14 }, 100);
+    expect(quieter).toEqual({ rms: -20, peak: -6, peakAt: 0 });
+
+    expect(readMeter(quieter, { rms: -9, peak: -3 }, 200)).toEqual({
+      rms: -9,
+      peak: -3,
+      peakAt: 200,
+    });
+    expect(
+      readMeter(quieter, { rms: -20, peak: -14 }, PEAK_HOLD_MS + 1)
+    ).toEqual({
+      rms: -20,
+      peak: -14,
+      peakAt: PEAK_HOLD_MS + 1,
+    });
+  });
+
+  it("finds the loudest sample of a waveform", () => {
+    expect(samplePeak(new Float32Array([0.1, -0.5, 0.25]))).toBeCloseTo(-6.02);
+    expect(samplePeak(new Float32Array([0, -1.5]))).toBeCloseTo(3.52);
+    expect(samplePeak(new Float32Array(4))).toBe(-Infinity);
+  });
+
+  it("places levels between the meter's floor and ceiling", () => {
+    expect(meterPercent(-Infinity)).toBe(0);
+    expect(meterPercent(-27)).toBe(50);
+    expect(meterPercent(12)).toBe(100);
+  });
+});
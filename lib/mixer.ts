@@ -0,0 +1,67 @@
+import type { Track } from "./types"
+
+// The range of every fader, in decibels
+export const MIN_VOLUME = -40
+export const MAX_VOLUME = 10
+
+// The range a level meter shows, in decibels
+export const METER_FLOOR = -60
+export const METER_CEILING = 6
+
+// How long a meter holds its loudest level before following the signal down
+export const PEAK_HOLD_MS = 1000
+
+// Whether a track is heard: it isn't muted and, while any track is soloed, it is one of them
+export function isAudible(track: Track, tracks: Track[]): boolean {
+  if (track.muted) return false
+  return !!track.solo || !tracks.some((other) => other.solo)
+}
+
+// Solo or unsolo a track. Soloing is exclusive, clearing every other solo,
+// unless `add` keeps them so several tracks can be soloed together.
+export function toggleSolo(tracks: Track[], id: string, add = false): Track[] {
+  const soloing = !tracks.find((track) => track.id === id)?.solo
+  return tracks.map((track) => {
+    if (track.id === id) return soloing ? { ...track, solo: true } : unsoloed(track)
+    return soloing && !add && track.solo ? unsoloed(track) : track
+  })
+}
+
+function unsoloed({ solo, ...track }: Track): Track {
+  return track
+}
+
+// What a channel's meter reads at one moment, in decibels: its RMS level and its
+// sample peak, the loudest single sample of the latest block
+export interface ChannelLevel {
+  rms: number
+  peak: number
+}
+
+// A meter's level and the loudest peak it has reached lately, in decibels
+export interface MeterReading {
+  rms: number
+  peak: number
+  // When the held peak was reached, in milliseconds
+  peakAt: number
+}
+
+// Follow a meter's RMS level, holding its sample peak for PEAK_HOLD_MS
+export function readMeter(previous: MeterReading | undefined, { rms, peak }: ChannelLevel, now: number): MeterReading {
+  if (!previous || peak >= previous.peak || now - previous.peakAt > PEAK_HOLD_MS) {
+    return { rms, peak, peakAt: now }
+  }
+  return { ...previous, rms }
+}
+
+// The loudest sample of a waveform, in decibels
+export function samplePeak(waveform: Float32Array): number {
+  const loudest = waveform.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0)
+  return 20 * Math.log10(loudest)
+}
+
+// Where a level falls on a meter, from 0 at the floor to 100 at the ceiling
+export function meterPercent(decibels: number): number {
+  const percent = ((decibels - METER_FLOOR) / (METER_CEILING - METER_FLOOR)) * 100
+  return Math.min(100, Math.max(0, percent))
+}
@@ -0,0 +1,461 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyAccidental,
+  beatSteps,
+  deleteSteps,
+  fillRests,
+  findOverlap,
+  fitsInScore,
+  insertSteps,
+  keyDistance,
+  isPitched,
+  isTiedInto,
+  noteSteps,
+  resizeForTimeSignature,
+  resolveOverlaps,
+  respellForKey,
+  spellInKey,
+  staffAccidentals,
+  stepsFor,
+  tieChain,
+  concertPitch,
+  writtenPitch,
+  transposeKey,
+  transposePitch,
+  transposeTracks,
+  TRIPLET,
+} from "./music-utils";
+import type { Note, Track } from "./types";
+
+describe("note occupancy", () => {
+  it("measures durations in eighth-note steps", () => {
+    expect(stepsFor("whole")).toBe(8);
+    expect(stepsFor("quarter")).toBe(2);
+    expect(stepsFor("sixteenth")).toBe(0.5);
+    // Notes without a duration play as eighths
+    expect(stepsFor(undefined)).toBe(1);
+  });
+
+  it("finds notes a new note would run into", () => {
+    const notes: Note[] = [{ step: 3, pitch: "C4", duration: "whole" }];
+
+    // Inside the whole note's span
+    expect(findOverlap(notes, 5, { duration: "eighth" })).toBe(notes[0]);
+    // A quarter on step 2 runs into the whole note on step 3
+    expect(findOverlap(notes, 2, { duration: "quarter" })).toBe(notes[0]);
+    // Starting together makes a chord
+    expect(findOverlap(notes, 3, { duration: "eighth" })).toBeUndefined();
+    // After the whole note ends
+    expect(findOverlap(notes, 11, { duration: "half" })).toBeUndefined();
+    expect(findOverlap(notes, 2, { duration: "eighth" })).toBeUndefined();
+  });
+
+  it("lengthens dotted values and shares tuplets out over their group", () => {
+    expect(noteSteps({ duration: "quarter", dotted: true })).toBe(3);
+    expect(noteSteps({ duration: "eighth", tuplet: TRIPLET })).toBeCloseTo(
+      2 / 3
+    );
+
+    // Three triplet eighths fill one quarter without running into each other
+    const triplets: Note[] = [0, 1, 2].map((index) => ({
+      step: (index * 2) / 3,
+      pitch: "C4",
+      duration: "eighth",
+      tuplet: TRIPLET,
+    }));
+    expect(
+      findOverlap(triplets.slice(0, 2), triplets[2].step, triplets[2])
+    ).toBeUndefined();
+    expect(findOverlap(triplets, 1, { duration: "eighth" })).toBe(triplets[1]);
+    expect(findOverlap(triplets, 2, { duration: "eighth" })).toBeUndefined();
+  });
+
+  it("follows ties into the next note of the same pitch", () => {
+    const notes: Note[] = [
+      { step: 4, pitch: "C4", duration: "half", tie: true },
+      { step: 8, pitch: "E4", duration: "quarter" },
+      { step: 8, pitch: "C4", duration: "quarter", tie: true },
+      { step: 10, pitch: "C4", duration: "eighth" },
+    ];
+
+    expect(tieChain(notes, notes[0])).toEqual([notes[0], notes[2], notes[3]]);
+    expect(isTiedInto(notes, notes[2])).toBe(true);
+    expect(isTiedInto(notes, notes[1])).toBe(false);
+  });
+
+  it("keeps notes inside the score", () => {
+    expect(fitsInScore(12, { duration: "half" }, 16)).toBe(true);
+    expect(fitsInScore(12, { duration: "whole" }, 16)).toBe(false);
+    expect(fitsInScore(15, { duration: "sixteenth" }, 16)).toBe(true);
+  });
+
+  it("shortens notes that run into the next onset", () => {
+    const { notes, shortened } = resolveOverlaps(
+      [
+        { step: 0, pitch: "C4", duration: "whole" },
+        { step: 0, pitch: "E4", duration: "eighth" },
+        { step: 3, pitch: "G4", duration: "half" },
+        { step: 6, pitch: "C5", duration: "quarter" },
+      ],
+      16
+    );
+
+    expect(notes.map((note) => note.duration)).toEqual([
+      "quarter",
+      "eighth",
+      "quarter",
+      "quarter",
+    ]);
+    expect(shortened).toBe(2);
+  });
+
+  it("shortens notes that run past the end of the score", () => {
+    const { notes } = resolveOverlaps(
+      [{ step: 14, pitch: "C4", duration: "whole" }],
+      16
+    );
+
+    expect(notes[0].duration).toBe("quarter");
+  });
+});
+
+describe("rest filling", () => {
+  const fourFour = { numerator: 4, denominator: 4 };
+  const track: Track = {
+    id: "1",
+    instrument: "piano",
+    notes: [
+      { step: 0, pitch: "C4", duration: "quarter" },
+      { step: 5, pitch: "D4", duration: "eighth" },
+    ],
+    volume: 0,
+    muted: false,
+  };
+
+  it("fills gaps with rests that start on their own beat", () => {
+    expect(fillRests(track, 16, fourFour)).toEqual([
+      { step: 2, duration: "quarter", explicit: false, fullMeasure: false },
+      { step: 4, duration: "eighth", explicit: false, fullMeasure: false },
+      { step: 6, duration: "quarter", explicit: false, fullMeasure: false },
+      { step: 8, duration: "whole", explicit: false, fullMeasure: true },
+    ]);
+  });
+
+  it("keeps rests placed by the user and fills around them", () => {
+    const rests = fillRests(
+      { ...track, rests: [{ step: 2, duration: "quarter" }] },
+      16,
+      fourFour
+    );
+
+    expect(rests.slice(0, 2)).toEqual([
+      { step: 2, duration: "quarter", explicit: true, fullMeasure: false },
+      { step: 4, duration: "eighth", explicit: false, fullMeasure: false },
+    ]);
+  });
+
+  it("splits gaps at barlines in other meters", () => {
+    // 3/4 is six steps; the half note ends one step into the second measure
+    const rests = fillRests(
+      {
+        ...track,
+        notes: [{ step: 3, pitch: "C4", duration: "half" }],
+      },
+      12,
+      { numerator: 3, denominator: 4 }
+    );
+
+    expect(rests.map((rest) => [rest.step, rest.duration])).toEqual([
+      [0, "quarter"],
+      [2, "eighth"],
+      [7, "eighth"],
+      [8, "quarter"],
+      [10, "quarter"],
+    ]);
+  });
+});
+
+describe("meters", () => {
+  it("groups compound meters in dotted quarters", () => {
+    expect(beatSteps({ numerator: 4, denominator: 4 })).toBe(2);
+    expect(beatSteps({ numerator: 6, denominator: 8 })).toBe(3);
+    expect(beatSteps({ numerator: 12, denominator: 8 })).toBe(3);
+    expect(beatSteps({ numerator: 2, denominator: 2 })).toBe(4);
+  });
+
+  it("keeps filled rests inside the beat in compound meters", () => {
+    const track: Track = {
+      id: "1",
+      instrument: "piano",
+      notes: [{ step: 0, pitch: "C4", duration: "eighth" }],
+      volume: 0,
+      muted: false,
+    };
+    const rests = fillRests(track, 6, { numerator: 6, denominator: 8 });
+
+    // The rest of the first beat, then a whole second beat
+    expect(rests.map((rest) => [rest.step, rest.duration])).toEqual([
+      [1, "quarter"],
+      [3, "quarter"],
+      [5, "eighth"],
+    ]);
+  });
+
+  it("keeps the number of measures when the meter changes", () => {
+    const track: Track = {
+      id: "1",
+      instrument: "piano",
+      notes: [{ step: 14, pitch: "C4", duration: "quarter" }],
+      volume: 0,
+      muted: false,
+    };
+    const fourFour = { numerator: 4, denominator: 4 };
+    const threeFour = { numerator: 3, denominator: 4 };
+
+    expect(resizeForTimeSignature(16, fourFour, threeFour, [])).toBe(12);
+    // The quarter on step 14 needs a third measure of 3/4
+    expect(resizeForTimeSignature(16, fourFour, threeFour, [track])).toBe(18);
+    expect(
+      resizeForTimeSignature(
+        12,
+        threeFour,
+        { numerator: 12, denominator: 8 },
+        []
+      )
+    ).toBe(24);
+  });
+});
+
+describe("measure editing", () => {
+  const track: Track = {
+    id: "1",
+    instrument: "piano",
+    notes: [
+      { step: 0, pitch: "C4", duration: "quarter" },
+      { step: 6, pitch: "D4", duration: "half" },
+      { step: 8, pitch: "E4", duration: "quarter" },
+    ],
+    rests: [{ step: 12, duration: "quarter" }],
+    volume: 0,
+    muted: false,
+  };
+
+  it("shifts notes and rests to make room for inserted measures", () => {
+    const [shifted] = insertSteps([track], 8, 8);
+
+    expect(shifted.notes.map((note) => note.step)).toEqual([0, 6, 16]);
+    expect(shifted.rests).toEqual([{ step: 20, duration: "quarter" }]);
+  });
+
+  it("removes a measure and pulls the rest of the score back", () => {
+    const [remaining] = deleteSteps([track], 8, 8);
+
+    // The E4 and the rest were in the deleted measure; the D4 is cut at the barline
+    expect(remaining.notes).toEqual([
+      { step: 0, pitch: "C4", duration: "quarter" },
+      { step: 6, pitch: "D4", duration: "quarter" },
+    ]);
+    expect(remaining.rests).toEqual([]);
+  });
+
+  it("stretches and trims hairpins with the measures around them", () => {
+    const swelling: Track = {
+      ...track,
+      hairpins: [
+        { type: "crescendo", start: 4, end: 12 },
+        { type: "diminuendo", start: 9, end: 15 },
+      ],
+    };
+
+    expect(insertSteps([swelling], 8, 8)[0].hairpins).toEqual([
+      { type: "crescendo", start: 4, end: 20 },
+      { type: "diminuendo", start: 17, end: 23 },
+    ]);
+    expect(deleteSteps([swelling], 8, 8)[0].hairpins).toEqual([
+      { type: "crescendo", start: 4, end: 8 },
+    ]);
+  });
+});
+
+describe("accidentals", () => {
+  const fourFour = { numerator: 4, denominator: 4 };
+  const shown = (notes: Note[], key: string) => {
+    const accidentals = staffAccidentals(notes, key, fourFour);
+    return notes.map((note) => {
+      const accidental = accidentals.get(note);
+      if (!accidental) return null;
+      return accidental.courtesy
+        ? `(${accidental.accidental})`
+        : accidental.accidental;
+    });
+  };
+
+  it("alters the note on a line or space", () => {
+    expect(applyAccidental("F4", "sharp")).toBe("F#4");
+    expect(applyAccidental("B3", "flat")).toBe("Bb3");
+    expect(applyAccidental("F#4", "natural")).toBe("F4");
+    expect(applyAccidental("F#4")).toBe("F#4");
+  });
+
+  it("only marks notes the key signature doesn't already give", () => {
+    const notes: Note[] = [
+      { step: 0, pitch: "F#4", duration: "quarter" },
+      { step: 2, pitch: "F4", duration: "quarter" },
+      { step: 4, pitch: "E5", duration: "quarter" },
+      { step: 6, pitch: "Bb4", duration: "quarter" },
+    ];
+    expect(shown(notes, "D")).toEqual([null, "natural", null, "flat"]);
+    expect(shown(notes, "C")).toEqual(["sharp", "natural", null, "flat"]);
+  });
+
+  it("carries accidentals through the measure and reminds after the barline", () => {
+    const notes: Note[] = [
+      { step: 0, pitch: "C#5", duration: "quarter" },
+      { step: 2, pitch: "C#5", duration: "quarter" },
+      { step: 4, pitch: "C5", duration: "quarter" },
+      { step: 8, pitch: "C#5", duration: "quarter" },
+      { step: 10, pitch: "C5", duration: "quarter" },
+      { step: 12, pitch: "C#4", duration: "quarter" },
+    ];
+    expect(shown(notes, "C")).toEqual([
+      "sharp",
+      null,
+      "natural",
+      "sharp",
+      "natural",
+      "sharp",
+    ]);
+
+    const lapsed: Note[] = [
+      { step: 6, pitch: "F#4", duration: "quarter" },
+      { step: 8, pitch: "F4", duration: "quarter" },
+    ];
+    expect(shown(lapsed, "C")).toEqual(["sharp", "(natural)"]);
+  });
+
+  it("doesn't mark notes tied into", () => {
+    const notes: Note[] = [
+      { step: 6, pitch: "G#4", duration: "quarter", tie: true },
+      { step: 8, pitch: "G#4", duration: "quarter" },
+    ];
+    expect(shown(notes, "C")).toEqual(["sharp", null]);
+  });
+
+  it("spells notes on a line or space in the key", () => {
+    expect(spellInKey("F4", "G")).toBe("F#4");
+    expect(spellInKey("B3", "F")).toBe("Bb3");
+    expect(spellInKey("C5", "G")).toBe("C5");
+  });
+
+  it("re-spells notes that follow the old key and keeps explicit accidentals", () => {
+    const track: Track = {
+      id: "1",
+      instrument: "piano",
+      volume: -10,
+      muted: false,
+      notes: [
+        { step: 0, pitch: "F#4", duration: "quarter" },
+        { step: 2, pitch: "F4", duration: "quarter" },
+        { step: 4, pitch: "C5", duration: "quarter" },
+      ],
+    };
+
+    const [respelled] = respellForKey([track], "G", "D");
+    expect(respelled.notes.map((note) => note.pitch)).toEqual([
+      "F#4",
+      "F4",
+      "C#5",
+    ]);
+    expect(respelled.notes[1]).toBe(track.notes[1]);
+  });
+});
+
+describe("transposition", () => {
+  it("moves pitches by semitones, spelled for the key", () => {
+    const up = { mode: "chromatic" as const, amount: 1 };
+    expect(transposePitch("C4", up, "C", "major")).toBe("C#4");
+    expect(transposePitch("A4", up, "F", "major")).toBe("Bb4");
+    expect(
+      transposePitch("B3", { mode: "chromatic", amount: -12 }, "C", "major")
+    ).toBe("B2");
+  });
+
+  it("moves pitches along the scale", () => {
+    const upThird = { mode: "diatonic" as const, amount: 2 };
+    expect(transposePitch("C4", upThird, "C", "major")).toBe("E4");
+    expect(transposePitch("A4", upThird, "C", "major")).toBe("C5");
+    expect(transposePitch("D4", upThird, "Bb", "major")).toBe("F4");
+    expect(
+      transposePitch("E4", { mode: "diatonic", amount: -1 }, "G", "major")
+    ).toBe("D4");
+    // Notes outside the scale keep their distance from the scale note below
+    expect(transposePitch("C#4", upThird, "C", "major")).toBe("F4");
+  });
+
+  it("takes the shorter way between keys", () => {
+    expect(keyDistance("C", "G")).toBe(-5);
+    expect(keyDistance("C", "D")).toBe(2);
+    expect(keyDistance("Bb", "C")).toBe(2);
+  });
+
+  it("only transposes the chosen notes", () => {
+    const tracks: Track[] = [
+      {
+        id: "1",
+        instrument: "violin",
+        volume: -10,
+        muted: false,
+        notes: [
+          { step: 0, pitch: "A3", duration: "quarter" },
+          { step: 8, pitch: "A3", duration: "quarter" },
+        ],
+      },
+    ];
+
+    const transposed = transposeTracks(
+      tracks,
+      { mode: "chromatic", amount: -3 },
+      "C",
+      "major",
+      (_, note) => note.step < 8
+    );
+    expect(transposed[0].notes.map((note) => note.pitch)).toEqual([
+      "F#3",
+      "A3",
+    ]);
+  });
+
+  it("leaves kit tracks alone, since their notes name drums", () => {
+    const drums: Track = {
+      id: "1",
+      instrument: "drums",
+      volume: 0,
+      muted: false,
+      notes: [
+        { step: 0, pitch: "C2", duration: "quarter" },
+        { step: 0, pitch: "F#2", duration: "eighth" },
+      ],
+    };
+
+    expect(isPitched(drums)).toBe(false);
+    expect(respellForKey([drums], "G", "C")[0]).toBe(drums);
+    expect(
+      transposeTracks(
+        [drums],
+        { mode: "chromatic", amount: 2 },
+        "C",
+        "major"
+      )[0]
+    ).toBe(drums);
+  });
+
+  it("writes transposing parts in their own key", () => {
+    expect(transposeKey("C", 2)).toBe("D");
+    expect(transposeKey("Eb", 7)).toBe("Bb");
+    expect(transposeKey("F", 2)).toBe("G");
+    expect(transposeKey("Gb", 12)).toBe("Gb");
+    expect(writtenPitch("Bb4", 2, "F")).toBe("C5");
+    expect(writtenPitch("C4", 7, "C")).toBe("G4");
+    expect(concertPitch("G4", 7, "C")).toBe("C4");
+  });
+});
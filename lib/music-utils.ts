@@ -1,4 +1,17 @@
-import type { Note } from "./types"
+import type {
+  Accidental,
+  Hairpin,
+  Note,
+  NoteDuration,
+  NoteValue,
+  Rest,
+  StaffAccidental,
+  StaffRest,
+  TimeSignature,
+  Track,
+  Tuplet,
+} from "./types"
+import { getInstrument, type Clef } from "./instruments"
 
 export function generateMusicNotation(notes: Note[], key: string, scale: string): string {
   // This is a simplified placeholder function
@@ -40,22 +53,42 @@ export function generateMusicNotation(notes: Note[], key: string, scale: string)
   return notation
 }
 
+// Key signature accidentals
+export const KEY_SIGNATURES: Record<string, { sharps: string[]; flats: string[] }> = {
+  C: { sharps: [], flats: [] },
+  G: { sharps: ["F"], flats: [] },
+  D: { sharps: ["F", "C"], flats: [] },
+  A: { sharps: ["F", "C", "G"], flats: [] },
+  E: { sharps: ["F", "C", "G", "D"], flats: [] },
+  B: { sharps: ["F", "C", "G", "D", "A"], flats: [] },
+  "F#": { sharps: ["F", "C", "G", "D", "A", "E"], flats: [] },
+  "C#": { sharps: ["F", "C", "G", "D", "A", "E", "B"], flats: [] },
+  F: { sharps: [], flats: ["B"] },
+  Bb: { sharps: [], flats: ["B", "E"] },
+  Eb: { sharps: [], flats: ["B", "E", "A"] },
+  Ab: { sharps: [], flats: ["B", "E", "A", "D"] },
+  Db: { sharps: [], flats: ["B", "E", "A", "D", "G"] },
+  Gb: { sharps: [], flats: ["B", "E", "A", "D", "G", "C"] },
+  Cb: { sharps: [], flats: ["B", "E", "A", "D", "G", "C", "F"] },
+}
+
+// Scale patterns (intervals between notes)
+export const SCALE_PATTERNS: Record<string, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  blues: [0, 3, 5, 6, 7, 10],
+}
+
 export function getScaleNotes(key: string, scale: string): string[] {
   const chromaticScale = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
 
-  // Find the index of the key in the chromatic scale
-  const keyIndex = chromaticScale.indexOf(key)
-
-  // Define scale patterns (intervals between notes)
-  const scalePatterns: Record<string, number[]> = {
-    major: [0, 2, 4, 5, 7, 9, 11],
-    minor: [0, 2, 3, 5, 7, 8, 10],
-    pentatonic: [0, 2, 4, 7, 9],
-    blues: [0, 3, 5, 6, 7, 10],
-  }
+  // Find the index of the key in the chromatic scale. Flat keys such as Bb aren't
+  // in it, so go by pitch class.
+  const keyIndex = noteNameToMidi(`${key}4`) % 12
 
   // Get the pattern for the selected scale
-  const pattern = scalePatterns[scale] || scalePatterns.major
+  const pattern = SCALE_PATTERNS[scale] || SCALE_PATTERNS.major
 
   // Generate the scale notes
   return pattern.map((interval) => {
@@ -86,20 +119,432 @@ export function noteNameToMidi(noteName: string): number {
   return (Number.parseInt(octave) + 1) * 12 + noteIndex
 }
 
-// Get the appropriate clef for an instrument
-export function getInstrumentClef(instrument: string): "treble" | "bass" {
-  // Bass instruments typically use bass clef
-  const bassInstruments = ["cello", "bass", "double bass", "tuba", "bassoon", "trombone", "bass guitar", "contrabass"]
-
-  // Check if the instrument name contains any of the bass instruments
-  for (const bassInst of bassInstruments) {
-    if (instrument.toLowerCase().includes(bassInst)) {
-      return "bass"
+// Semitones each accidental moves a natural note
+const ACCIDENTAL_ALTERS: Record<Accidental, number> = { sharp: 1, flat: -1, natural: 0 }
+
+// Split a pitch like "F#4" into its letter, its alteration in semitones and its octave
+export function parsePitch(pitch: string): { letter: string; alter: number; octave: number } {
+  const [, letter = "C", accidental, octave = "4"] = pitch.match(/([A-G])(#|b)?(-?\d+)/) || []
+  return { letter, alter: accidental === "#" ? 1 : accidental === "b" ? -1 : 0, octave: Number(octave) }
+}
+
+// The natural note on the same line or space, e.g. "F4" for "F#4"
+export function naturalPitch(pitch: string): string {
+  const { letter, octave } = parsePitch(pitch)
+  return `${letter}${octave}`
+}
+
+function spellPitch(letter: string, alter: number, octave: number): string {
+  return `${letter}${alter === 1 ? "#" : alter === -1 ? "b" : ""}${octave}`
+}
+
+// Raise or lower the note on a line or space, e.g. "F4" with a sharp is "F#4"
+export function applyAccidental(pitch: string, accidental?: Accidental): string {
+  const { letter, alter, octave } = parsePitch(pitch)
+  return spellPitch(letter, accidental ? ACCIDENTAL_ALTERS[accidental] : alter, octave)
+}
+
+// The alteration a key signature gives every note with this letter
+export function keyAlteration(key: string, letter: string): number {
+  const { sharps, flats } = KEY_SIGNATURES[key] ?? KEY_SIGNATURES.C
+  if (sharps.includes(letter)) return 1
+  if (flats.includes(letter)) return -1
+  return 0
+}
+
+// The pitch the note on a line or space has in a key, e.g. "F#4" for the F line in G major
+export function spellInKey(pitch: string, key: string): string {
+  const { letter, octave } = parsePitch(pitch)
+  return spellPitch(letter, keyAlteration(key, letter), octave)
+}
+
+// Whether a track's notes are pitches. Kit tracks store the drum each note plays
+// as its General MIDI key, so keys and transposition must leave them alone.
+export function isPitched(track: Track): boolean {
+  return !getInstrument(track.instrument)?.kit
+}
+
+// Re-spell the notes that follow one key signature so that they follow another.
+// Notes whose spelling differs from the old key carry their own accidental, a
+// natural included, and keep their pitch.
+export function respellForKey(tracks: Track[], from: string, to: string): Track[] {
+  return tracks.map((track) =>
+    isPitched(track)
+      ? {
+          ...track,
+          notes: track.notes.map((note) => {
+            const { letter, alter } = parsePitch(note.pitch)
+            if (alter !== keyAlteration(from, letter)) return note
+            const pitch = spellInKey(note.pitch, to)
+            return pitch === note.pitch ? note : { ...note, pitch }
+          }),
+        }
+      : track,
+  )
+}
+
+// A shift of pitch, either by semitones or by steps of the current scale
+export interface Transposition {
+  mode: "chromatic" | "diatonic"
+  amount: number
+}
+
+// Semitones from one key to another, going the shorter way round
+export function keyDistance(from: string, to: string): number {
+  const distance = (((noteNameToMidi(`${to}4`) - noteNameToMidi(`${from}4`)) % 12) + 12) % 12
+  return distance > 6 ? distance - 12 : distance
+}
+
+// Name a MIDI note, with flats in flat keys and sharps otherwise
+export function spellMidi(midi: number, key: string): string {
+  const name = midiToNoteName(midi)
+  if (!name.includes("#") || !KEY_SIGNATURES[key]?.flats.length) return name
+  const { letter, octave } = parsePitch(name)
+  const above = "CDEFGAB"[("CDEFGAB".indexOf(letter) + 1) % 7]
+  return `${above}b${octave}`
+}
+
+// Move a pitch by a transposition. Diatonic moves walk the notes of the scale;
+// a note outside the scale moves with the scale note below it and keeps its
+// distance from it.
+export function transposePitch(pitch: string, { mode, amount }: Transposition, key: string, scale: string): string {
+  const midi = noteNameToMidi(pitch)
+  if (mode === "chromatic") return spellMidi(midi + amount, key)
+
+  const inScale = new Set(getScaleNotes(key, scale).map((note) => noteNameToMidi(`${note}4`) % 12))
+  const isScaleNote = (candidate: number) => inScale.has(((candidate % 12) + 12) % 12)
+
+  let base = midi
+  while (!isScaleNote(base)) base--
+  const offset = midi - base
+
+  const direction = Math.sign(amount)
+  for (let moved = 0; moved < Math.abs(amount); moved++) {
+    base += direction
+    while (!isScaleNote(base)) base += direction
+  }
+  return spellMidi(base + offset, key)
+}
+
+// Transpose the notes a filter picks out, leaving the rest of the score and any kit tracks alone
+export function transposeTracks(
+  tracks: Track[],
+  transposition: Transposition,
+  key: string,
+  scale: string,
+  include: (track: Track, note: Note) => boolean = () => true,
+): Track[] {
+  return tracks.map((track) =>
+    isPitched(track)
+      ? {
+          ...track,
+          notes: track.notes.map((note) =>
+            include(track, note) ? { ...note, pitch: transposePitch(note.pitch, transposition, key, scale) } : note,
+          ),
+        }
+      : track,
+  )
+}
+
+// The key a part moved by some semitones is written in, picking the spelling
+// with the fewest sharps or flats
+export function transposeKey(key: string, semitones: number): string {
+  if (semitones % 12 === 0) return key
+  const pitchClass = (name: string) => noteNameToMidi(`${name}4`) % 12
+  const target = (((pitchClass(key) + semitones) % 12) + 12) % 12
+  const size = (name: string) => KEY_SIGNATURES[name].sharps.length + KEY_SIGNATURES[name].flats.length
+  const candidates = Object.keys(KEY_SIGNATURES).filter((name) => pitchClass(name) === target)
+  return candidates.sort((a, b) => size(a) - size(b))[0] ?? key
+}
+
+// The pitch written in a part that is transposed by some semitones, for a concert pitch in a key
+export function writtenPitch(pitch: string, semitones: number, key: string): string {
+  if (!semitones) return pitch
+  return spellMidi(noteNameToMidi(pitch) + semitones, transposeKey(key, semitones))
+}
+
+// The concert pitch of a note written in a part that is transposed by some semitones
+export function concertPitch(written: string, semitones: number, key: string): string {
+  if (!semitones) return written
+  return spellMidi(noteNameToMidi(written) - semitones, key)
+}
+
+// The accidentals to draw before each note. A note needs one when its alteration
+// differs from what the key signature, or an earlier accidental on the same line in
+// the measure, already gives it. Once a barline cancels an accidental, the next note
+// on that line gets a courtesy accidental. Notes tied into are never marked again.
+export function staffAccidentals(notes: Note[], key: string, timeSignature: TimeSignature): Map<Note, StaffAccidental> {
+  const measureSteps = stepsPerMeasure(timeSignature)
+  const shown = new Map<Note, StaffAccidental>()
+  // Alterations set on each line ("F4") so far in this measure and in the one before
+  let current = new Map<string, number>()
+  let previous = new Map<string, number>()
+  let measure = -1
+
+  const sorted = [...notes].sort((a, b) => a.step - b.step)
+  sorted.forEach((note) => {
+    const noteMeasure = Math.floor(note.step / measureSteps + STEP_EPSILON)
+    if (noteMeasure !== measure) {
+      previous = noteMeasure === measure + 1 ? current : new Map()
+      current = new Map()
+      measure = noteMeasure
+    }
+
+    const { letter, alter, octave } = parsePitch(note.pitch)
+    const line = `${letter}${octave}`
+    const inForce = current.get(line) ?? keyAlteration(key, letter)
+    const lapsed = !current.has(line) && previous.has(line) && previous.get(line) !== alter
+    current.set(line, alter)
+    if (isTiedInto(notes, note)) return
+
+    if (alter !== inForce || lapsed) {
+      shown.set(note, {
+        accidental: alter === 1 ? "sharp" : alter === -1 ? "flat" : "natural",
+        courtesy: alter === inForce,
+      })
+    }
+  })
+
+  return shown
+}
+
+// Number of sequencer steps (eighth notes) in one measure of a time signature
+export function stepsPerMeasure({ numerator, denominator }: TimeSignature): number {
+  return Math.max(1, Math.round((numerator * 8) / denominator))
+}
+
+// Whether the beats of a meter divide in three, as in 6/8, 9/8 and 12/8
+export function isCompoundMeter({ numerator, denominator }: TimeSignature): boolean {
+  return denominator === 8 && numerator > 3 && numerator % 3 === 0
+}
+
+// Number of steps in one beat: a dotted quarter in compound meters, otherwise one denominator note
+export function beatSteps(timeSignature: TimeSignature): number {
+  if (isCompoundMeter(timeSignature)) return 3
+  return Math.min(stepsPerMeasure(timeSignature), Math.max(1, 8 / timeSignature.denominator))
+}
+
+// The score length after a change of meter: as many measures as before, with more
+// added if needed so that every note still ends inside the score
+export function resizeForTimeSignature(
+  totalSteps: number,
+  from: TimeSignature,
+  to: TimeSignature,
+  tracks: Track[],
+): number {
+  const measureSteps = stepsPerMeasure(to)
+  const measures = Math.max(1, Math.ceil(totalSteps / stepsPerMeasure(from)))
+  const lastEnd = Math.max(0, ...tracks.flatMap((track) => track.notes.map((note) => note.step + noteSteps(note))))
+  return Math.max(measures, Math.ceil(lastEnd / measureSteps - STEP_EPSILON)) * measureSteps
+}
+
+// How many sequencer steps (eighth notes) each duration lasts, longest first
+export const DURATION_STEPS: Record<NoteDuration, number> = {
+  whole: 8,
+  half: 4,
+  quarter: 2,
+  eighth: 1,
+  sixteenth: 0.5,
+}
+
+// Three notes in the time of two, the only tuplet the palette offers
+export const TRIPLET: Tuplet = { actual: 3, normal: 2 }
+
+// Tuplet lengths such as 2/3 of a step don't add up exactly in floating point
+export const STEP_EPSILON = 1e-6
+
+// Notes without a duration play as eighths
+export function stepsFor(duration: NoteDuration = "eighth"): number {
+  return DURATION_STEPS[duration]
+}
+
+// How many steps a written value lasts once its dot and tuplet are applied
+export function noteSteps({ duration, dotted, tuplet }: NoteValue): number {
+  const dotFactor = dotted ? 1.5 : 1
+  const tupletFactor = tuplet ? tuplet.normal / tuplet.actual : 1
+  return stepsFor(duration) * dotFactor * tupletFactor
+}
+
+// The length of one whole tuplet group, e.g. a quarter for eighth-note triplets
+export function tupletGroupSteps({ duration, tuplet }: NoteValue): number {
+  return tuplet ? stepsFor(duration) * tuplet.normal : stepsFor(duration)
+}
+
+// A readable name for a value, such as "dotted quarter" or "triplet eighth"
+export function noteValueName({ duration = "eighth", dotted, tuplet }: NoteValue): string {
+  const tupletName =
+    tuplet && (tuplet.actual === 3 && tuplet.normal === 2 ? "triplet" : `${tuplet.actual}:${tuplet.normal}`)
+  return [dotted && "dotted", tupletName, duration].filter(Boolean).join(" ")
+}
+
+// Whether something starting on a step shares any time with a note or rest
+export function overlaps(step: number, value: NoteValue, other: Note | Rest): boolean {
+  return other.step < step + noteSteps(value) - STEP_EPSILON && step < other.step + noteSteps(other) - STEP_EPSILON
+}
+
+// The note in the same voice that a new note would collide with, if any.
+// Notes starting on the same step sound together as a chord, so they never collide.
+export function findOverlap(notes: Note[], step: number, value: NoteValue): Note | undefined {
+  return notes.find((note) => Math.abs(note.step - step) > STEP_EPSILON && overlaps(step, value, note))
+}
+
+// Whether a note starting on a step ends before the score does
+export function fitsInScore(step: number, value: NoteValue, totalSteps: number): boolean {
+  return step >= 0 && step + noteSteps(value) <= totalSteps + STEP_EPSILON
+}
+
+// The note a tied note is held into: the next note of the same pitch, starting as it ends
+export function tieContinuation(notes: Note[], note: Note): Note | undefined {
+  if (!note.tie) return undefined
+  const end = note.step + noteSteps(note)
+  return notes.find((other) => other.pitch === note.pitch && Math.abs(other.step - end) < STEP_EPSILON)
+}
+
+// Whether a note only continues a tied note, so it isn't played on its own
+export function isTiedInto(notes: Note[], note: Note): boolean {
+  return notes.some((other) => tieContinuation(notes, other) === note)
+}
+
+// A note followed by every note it is tied into, in order
+export function tieChain(notes: Note[], note: Note): Note[] {
+  const chain = [note]
+  let next = tieContinuation(notes, note)
+  while (next && !chain.includes(next)) {
+    chain.push(next)
+    next = tieContinuation(notes, next)
+  }
+  return chain
+}
+
+// Shorten notes that run into the next onset in their voice (or past the end of the score)
+// to the longest plain duration that fits. Returns the notes and how many were shortened.
+export function resolveOverlaps(notes: Note[], totalSteps: number) {
+  const onsets = [...new Set(notes.map((note) => note.step))].sort((a, b) => a - b)
+  let shortened = 0
+
+  const resolved = notes.map((note) => {
+    const nextOnset = onsets.find((onset) => onset > note.step + STEP_EPSILON) ?? totalSteps
+    const result = shortenTo(note, Math.min(nextOnset, totalSteps) - note.step)
+    if (result !== note) shortened++
+    return result
+  })
+
+  return { notes: resolved, shortened }
+}
+
+// A note cut down to the longest plain duration that lasts at most the available steps.
+// Notes that already fit, or that nothing fits, are returned unchanged.
+function shortenTo(note: Note, available: number): Note {
+  if (noteSteps(note) <= available + STEP_EPSILON) return note
+
+  const duration = (Object.keys(DURATION_STEPS) as NoteDuration[]).find((d) => DURATION_STEPS[d] <= available)
+  if (!duration) return note
+  const { dotted, tuplet, ...plain } = note
+  return { ...plain, duration }
+}
+
+// Make room for new measures: everything from a step onwards moves later by a number of steps
+export function insertSteps(tracks: Track[], at: number, count: number): Track[] {
+  const shift = <T extends Note | Rest>(item: T): T =>
+    item.step >= at - STEP_EPSILON ? { ...item, step: item.step + count } : item
+
+  // Hairpins running across the inserted steps stretch over them
+  const shiftHairpin = (hairpin: Hairpin): Hairpin => ({
+    ...hairpin,
+    start: hairpin.start >= at - STEP_EPSILON ? hairpin.start + count : hairpin.start,
+    end: hairpin.end > at + STEP_EPSILON ? hairpin.end + count : hairpin.end,
+  })
+
+  return tracks.map((track) => ({
+    ...track,
+    notes: track.notes.map(shift),
+    ...(track.rests && { rests: track.rests.map(shift) }),
+    ...(track.hairpins && { hairpins: track.hairpins.map(shiftHairpin) }),
+  }))
+}
+
+// Remove the steps from start to start + count. Notes and rests that begin inside them are
+// deleted, later ones move earlier, and notes sounding into the removed span are shortened
+// to end where it starts (placed rests that would run into it are dropped). Hairpins lose
+// the part inside them, and those left with no length are dropped.
+export function deleteSteps(tracks: Track[], start: number, count: number): Track[] {
+  const end = start + count
+  const inside = (item: Note | Rest) => item.step >= start - STEP_EPSILON && item.step < end - STEP_EPSILON
+  const after = (item: Note | Rest) => item.step >= end - STEP_EPSILON
+  const close = (step: number) => (step < start ? step : Math.max(start, step - count))
+
+  return tracks.map((track) => ({
+    ...track,
+    notes: track.notes
+      .filter((note) => !inside(note))
+      .map((note) => (after(note) ? { ...note, step: note.step - count } : shortenTo(note, start - note.step))),
+    ...(track.rests && {
+      rests: track.rests
+        .filter((rest) => !inside(rest) && (after(rest) || rest.step + noteSteps(rest) <= start + STEP_EPSILON))
+        .map((rest) => (after(rest) ? { ...rest, step: rest.step - count } : rest)),
+    }),
+    ...(track.hairpins && {
+      hairpins: track.hairpins
+        .map((hairpin) => ({ ...hairpin, start: close(hairpin.start), end: close(hairpin.end) }))
+        .filter((hairpin) => hairpin.end > hairpin.start + STEP_EPSILON),
+    }),
+  }))
+}
+
+// Every rest to draw on a track: the ones placed by the user, plus rests filling
+// each gap. Gaps are split at barlines into values that start on their own beat,
+// and a rest only runs past a beat when it covers whole beats from the start of one.
+export function fillRests(track: Track, totalSteps: number, timeSignature: TimeSignature): StaffRest[] {
+  const measureSteps = stepsPerMeasure(timeSignature)
+  const beat = beatSteps(timeSignature)
+  const compound = isCompoundMeter(timeSignature)
+  const explicit = track.rests ?? []
+  const spans = [...track.notes, ...explicit]
+    .map((item) => ({ start: item.step, end: item.step + noteSteps(item) }))
+    .sort((a, b) => a.start - b.start)
+  const durations = Object.keys(DURATION_STEPS) as NoteDuration[]
+  const filled: StaffRest[] = []
+
+  for (let measureStart = 0; measureStart < totalSteps; measureStart += measureSteps) {
+    const measureEnd = Math.min(measureStart + measureSteps, totalSteps)
+    const inMeasure = spans.filter((span) => span.start < measureEnd && measureStart < span.end)
+
+    if (inMeasure.length === 0 && measureEnd - measureStart === measureSteps) {
+      filled.push({ step: measureStart, duration: "whole", explicit: false, fullMeasure: true })
+      continue
     }
+
+    let position = measureStart
+    const fillTo = (end: number) => {
+      while (position < end) {
+        const offset = position - measureStart
+        const nextBeat = (Math.floor(offset / beat) + 1) * beat
+        // Compound beats are written as three eighths, so a rest may start on any of them
+        const fits = (length: number) =>
+          length <= end - position &&
+          (compound || offset % length === 0) &&
+          (offset + length <= nextBeat || (offset % beat === 0 && length % beat === 0))
+        const duration = durations.find((d) => fits(DURATION_STEPS[d])) ?? "sixteenth"
+        filled.push({ step: position, duration, explicit: false, fullMeasure: false })
+        position += DURATION_STEPS[duration]
+      }
+    }
+
+    inMeasure.forEach((span) => {
+      fillTo(Math.max(position, span.start))
+      position = Math.max(position, Math.min(span.end, measureEnd))
+    })
+    fillTo(measureEnd)
   }
 
-  // Piano typically uses both clefs, but we'll default to treble
-  return "treble"
+  return [...explicit.map((rest) => ({ ...rest, explicit: true, fullMeasure: false })), ...filled].sort(
+    (a, b) => a.step - b.step,
+  )
+}
+
+// Get the appropriate clef for an instrument
+export function getInstrumentClef(instrument: string): Clef {
+  return getInstrument(instrument)?.clef ?? "treble"
 }
 
 // Add helper function to print music as ASCII
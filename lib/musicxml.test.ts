@@ -0,0 +1,436 @@
+import { describe, it, expect } from "vitest";
+import { exportMusicXml, importMusicXml } from "./musicxml";
+import { CompositionImportError } from "./composition";
+import type { Composition } from "./types";
+
+describe("MusicXML export", () => {
+  const composition: Composition = {
+    tracks: [
+      {
+        id: "1",
+        instrument: "violin",
+        notes: [
+          { step: 0, pitch: "F#4", duration: "quarter" },
+          { step: 0, pitch: "A4", duration: "quarter" },
+          { step: 6, pitch: "D5", duration: "half" },
+        ],
+        volume: 0,
+        muted: false,
+      },
+      { id: "2", instrument: "cello", notes: [], volume: 0, muted: false },
+    ],
+    bpm: 100,
+    key: "D",
+    scale: "major",
+    timeSignature: { numerator: 4, denominator: 4 },
+    totalSteps: 16,
+  };
+
+  const parse = (xml: string) =>
+    new DOMParser().parseFromString(xml, "application/xml");
+
+  it("writes one part per track with the right clef, key and time", () => {
+    const doc = parse(exportMusicXml(composition));
+
+    expect(doc.querySelector("score-partwise")?.getAttribute("version")).toBe(
+      "4.0"
+    );
+    expect(
+      [...doc.querySelectorAll("part-name")].map((el) => el.textContent)
+    ).toEqual(["Violin", "Cello"]);
+
+    const [violin, cello] = [...doc.querySelectorAll("part")];
+    expect(violin.querySelector("clef sign")?.textContent).toBe("G");
+    expect(cello.querySelector("clef sign")?.textContent).toBe("F");
+    expect(violin.querySelector("key fifths")?.textContent).toBe("2");
+    expect(violin.querySelector("time beats")?.textContent).toBe("4");
+    expect(violin.querySelector("sound")?.getAttribute("tempo")).toBe("100");
+  });
+
+  it("writes minor keys with their own key signature", () => {
+    const fifths = (key: string) =>
+      parse(
+        exportMusicXml({ ...composition, key, scale: "minor" })
+      ).querySelector("key fifths")?.textContent;
+
+    expect(fifths("C")).toBe("-3");
+    expect(fifths("D")).toBe("-1");
+    expect(fifths("A")).toBe("0");
+    expect(fifths("F#")).toBe("3");
+    // Past seven flats the sharp spelling is written instead
+    expect(fifths("Db")).toBe("4");
+  });
+
+  it("derives measures from totalSteps and fills the gaps with rests", () => {
+    const doc = parse(exportMusicXml(composition));
+    const [violin, cello] = [...doc.querySelectorAll("part")];
+
+    // 16 eighth-note steps in 4/4 is two measures
+    expect(violin.querySelectorAll("measure")).toHaveLength(2);
+    expect(cello.querySelectorAll('rest[measure="yes"]')).toHaveLength(2);
+
+    const firstMeasure = violin.querySelectorAll("measure")[0];
+    const notes = [...firstMeasure.querySelectorAll("note")];
+    // A two-note quarter chord and a half rest, then D5 starts on the last beat
+    expect(notes[1].querySelector("chord")).not.toBeNull();
+    expect(notes[0].querySelector("alter")?.textContent).toBe("1");
+    expect(notes[2].querySelector("rest")).not.toBeNull();
+    expect(notes[2].querySelector("type")?.textContent).toBe("half");
+
+    // Every measure adds up to a full 4/4 bar (16 divisions)
+    violin.querySelectorAll("measure").forEach((measure) => {
+      const total = [...measure.querySelectorAll("note")]
+        .filter((note) => !note.querySelector("chord"))
+        .reduce(
+          (sum, note) =>
+            sum + Number(note.querySelector("duration")?.textContent),
+          0
+        );
+      expect(total).toBe(16);
+    });
+  });
+
+  it("writes rests placed by the user at their own value", () => {
+    const doc = parse(
+      exportMusicXml({
+        ...composition,
+        tracks: [
+          {
+            ...composition.tracks[1],
+            rests: [
+              { step: 2, duration: "quarter" },
+              { step: 8, duration: "whole" },
+            ],
+          },
+        ],
+      })
+    );
+    const [first, second] = [...doc.querySelectorAll("measure")];
+
+    // A gap-filling quarter rest, the placed quarter, then a half to fill the bar
+    expect(
+      [...first.querySelectorAll("rest + duration")].map((d) => d.textContent)
+    ).toEqual(["4", "4", "8"]);
+    // A placed whole rest is a whole rest, not a whole-measure rest
+    expect(second.querySelector('rest[measure="yes"]')).toBeNull();
+    expect(second.querySelector("type")?.textContent).toBe("whole");
+  });
+
+  it("writes dotted notes, triplets and ties as written", () => {
+    const triplet = { actual: 3, normal: 2 };
+    const doc = parse(
+      exportMusicXml({
+        ...composition,
+        tracks: [
+          {
+            ...composition.tracks[0],
+            notes: [
+              {
+                step: 0,
+                pitch: "C5",
+                duration: "quarter",
+                dotted: true,
+                tie: true,
+              },
+              { step: 3, pitch: "C5", duration: "eighth" },
+              ...["D5", "E5", "F5"].map((pitch, index) => ({
+                step: 4 + (index * 2) / 3,
+                pitch,
+                duration: "eighth" as const,
+                tuplet: triplet,
+              })),
+            ],
+          },
+        ],
+      })
+    );
+    const notes = [...doc.querySelectorAll("note")];
+
+    // Triplets need a grid three times finer than plain values
+    expect(doc.querySelector("divisions")?.textContent).toBe("12");
+    expect(notes[0].querySelector("dot")).not.toBeNull();
+    expect(notes[0].querySelector("duration")?.textContent).toBe("18");
+    expect(notes[0].querySelector("tie")?.getAttribute("type")).toBe("start");
+    expect(notes[1].querySelector("tie")?.getAttribute("type")).toBe("stop");
+
+    const triplets = notes.slice(2, 5);
+    expect(
+      triplets.map((note) => note.querySelector("duration")?.textContent)
+    ).toEqual(["4", "4", "4"]);
+    expect(
+      triplets.map((note) => note.querySelector("actual-notes")?.textContent)
+    ).toEqual(["3", "3", "3"]);
+    expect(
+      triplets.map((note) => note.querySelector("tuplet")?.getAttribute("type"))
+    ).toEqual(["start", undefined, "stop"]);
+  });
+
+  it("ties notes that cross a barline", () => {
+    const doc = parse(exportMusicXml(composition));
+    const violin = doc.querySelectorAll("part")[0];
+
+    // The half note on step 6 starts in measure 1 and finishes in measure 2
+    const ties = violin.querySelectorAll("tie");
+    expect([...ties].map((tie) => tie.getAttribute("type"))).toEqual([
+      "start",
+      "stop",
+    ]);
+  });
+});
+
+describe("MusicXML import", () => {
+  const score = (measures: string, partList = "<part-name>Violin I</part-name>") => `<?xml version="1.0"?>
+<score-partwise version="4.0">
+  <part-list><score-part id="P1">${partList}</score-part></part-list>
+  <part id="P1">${measures}</part>
+</score-partwise>`;
+
+  it("reads back what exportMusicXml writes", () => {
+    const composition: Composition = {
+      tracks: [
+        {
+          id: "1",
+          instrument: "flute",
+          notes: [
+            { step: 0, pitch: "C5", duration: "quarter" },
+            { step: 2, pitch: "Bb4", duration: "eighth" },
+            { step: 3, pitch: "D5", duration: "sixteenth" },
+          ],
+          volume: 0,
+          muted: false,
+        },
+        {
+          id: "2",
+          instrument: "bassoon",
+          notes: [{ step: 8, pitch: "F2", duration: "whole" }],
+          volume: 0,
+          muted: false,
+        },
+      ],
+      bpm: 84,
+      key: "F",
+      scale: "minor",
+      timeSignature: { numerator: 3, denominator: 4 },
+      totalSteps: 24,
+    };
+
+    const { composition: result, warnings } = importMusicXml(
+      exportMusicXml(composition)
+    );
+
+    expect(result).toEqual(composition);
+    expect(warnings).toEqual([]);
+  });
+
+  it("writes kit tracks unpitched on a percussion clef and reads them back", () => {
+    const composition: Composition = {
+      tracks: [
+        {
+          id: "1",
+          instrument: "drums",
+          notes: [
+            { step: 0, pitch: "C2", duration: "quarter" },
+            { step: 0, pitch: "F#2", duration: "quarter" },
+            { step: 2, pitch: "D2", duration: "quarter" },
+          ],
+          volume: 0,
+          muted: false,
+        },
+      ],
+      bpm: 120,
+      key: "C",
+      scale: "major",
+      timeSignature: { numerator: 4, denominator: 4 },
+      totalSteps: 16,
+    };
+
+    const xml = exportMusicXml(composition);
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    expect(doc.querySelector("clef > sign")?.textContent).toBe("percussion");
+    expect(doc.querySelector("pitch")).toBeNull();
+    expect(
+      [...doc.querySelectorAll("unpitched")].map(
+        (el) =>
+          `${el.querySelector("display-step")?.textContent}${el.querySelector("display-octave")?.textContent}`
+      )
+    ).toEqual(["F4", "G5", "C5"]);
+
+    expect(importMusicXml(xml).composition).toEqual(composition);
+  });
+
+  it("maps part names onto the instrument list", () => {
+    const measures = `<measure number="1"><attributes><divisions>1</divisions></attributes>
+      <note><rest measure="yes"/><duration>4</duration></note></measure>`;
+
+    expect(
+      importMusicXml(score(measures)).composition.tracks[0].instrument
+    ).toBe("violin");
+    expect(
+      importMusicXml(score(measures, "<part-name>Horn in F</part-name>"))
+        .composition.tracks[0].instrument
+    ).toBe("french horn");
+    expect(
+      importMusicXml(score(measures, "<part-name>Contrabass</part-name>"))
+        .composition.tracks[0].instrument
+    ).toBe("bass");
+  });
+
+  it("reads tuplets, dots and ties", () => {
+    const measures = `<measure number="1">
+      <attributes><divisions>6</divisions><time><beats>2</beats><beat-type>4</beat-type></time></attributes>
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>2</duration><type>eighth</type>
+        <time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification></note>
+      <note><pitch><step>D</step><octave>5</octave></pitch><duration>2</duration><type>eighth</type>
+        <time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification></note>
+      <note><pitch><step>E</step><octave>5</octave></pitch><duration>2</duration><type>eighth</type>
+        <time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification>
+        <tie type="start"/></note>
+      <note><pitch><step>E</step><octave>5</octave></pitch><duration>6</duration><tie type="stop"/><type>quarter</type></note>
+    </measure>
+    <measure number="2">
+      <note><pitch><step>G</step><octave>4</octave></pitch><duration>9</duration><type>quarter</type><dot/></note>
+      <note><rest/><duration>3</duration><type>eighth</type></note>
+    </measure>`;
+
+    const { composition, warnings } = importMusicXml(score(measures));
+    const triplet = { actual: 3, normal: 2 };
+
+    expect(composition.tracks[0].notes).toEqual([
+      { step: 0, pitch: "C5", duration: "eighth", tuplet: triplet },
+      { step: 2 / 3, pitch: "D5", duration: "eighth", tuplet: triplet },
+      {
+        step: 4 / 3,
+        pitch: "E5",
+        duration: "eighth",
+        tuplet: triplet,
+        tie: true,
+      },
+      { step: 2, pitch: "E5", duration: "quarter" },
+      { step: 4, pitch: "G4", duration: "quarter", dotted: true },
+    ]);
+    expect(composition.timeSignature).toEqual({ numerator: 2, denominator: 4 });
+    expect(warnings).toEqual([]);
+  });
+
+  it("reads back dotted notes, triplets and ties as written", () => {
+    const triplet = { actual: 3, normal: 2 };
+    const composition: Composition = {
+      tracks: [
+        {
+          id: "1",
+          instrument: "violin",
+          notes: [
+            {
+              step: 0,
+              pitch: "C5",
+              duration: "quarter",
+              dotted: true,
+              tie: true,
+            },
+            { step: 3, pitch: "C5", duration: "eighth" },
+            ...["D5", "E5", "F5"].map((pitch, index) => ({
+              step: 4 + (index * 2) / 3,
+              pitch,
+              duration: "eighth" as const,
+              tuplet: triplet,
+            })),
+            { step: 6, pitch: "G5", duration: "quarter", tie: true },
+            // Tied over the barline into a value the two can't be written as together
+            { step: 8, pitch: "G5", duration: "quarter", dotted: true },
+          ],
+          volume: 0,
+          muted: false,
+        },
+      ],
+      bpm: 120,
+      key: "C",
+      scale: "major",
+      timeSignature: { numerator: 4, denominator: 4 },
+      totalSteps: 16,
+    };
+
+    const { composition: result, warnings } = importMusicXml(
+      exportMusicXml(composition)
+    );
+
+    expect(result).toEqual(composition);
+    expect(warnings).toEqual([]);
+  });
+
+  it("moves notes that are off the step grid onto it", () => {
+    const measures = `<measure number="1">
+      <attributes><divisions>4</divisions></attributes>
+      <note><pitch><step>C</step><octave>5</octave></pitch><duration>1</duration><type>16th</type></note>
+      <note><pitch><step>D</step><octave>5</octave></pitch><duration>3</duration><type>eighth</type><dot/></note>
+    </measure>`;
+
+    const { composition, warnings } = importMusicXml(score(measures));
+
+    expect(composition.tracks[0].notes.map((note) => note.step)).toEqual([
+      0, 1,
+    ]);
+    expect(warnings.some((w) => w.includes("nearest eighth-note step"))).toBe(
+      true
+    );
+  });
+
+  it("reads key, tempo and accidentals", () => {
+    const measures = `<measure number="1">
+      <attributes><divisions>2</divisions><key><fifths>-3</fifths></key></attributes>
+      <direction><sound tempo="72"/></direction>
+      <note><pitch><step>E</step><alter>-1</alter><octave>4</octave></pitch><duration>8</duration><type>whole</type></note>
+    </measure>`;
+
+    const { composition } = importMusicXml(score(measures));
+
+    expect(composition.key).toBe("Eb");
+    expect(composition.bpm).toBe(72);
+    expect(composition.tracks[0].notes).toEqual([
+      { step: 0, pitch: "Eb4", duration: "whole" },
+    ]);
+  });
+
+  it("reads minor keys from their key signature", () => {
+    const measures = `<measure number="1">
+      <attributes><divisions>2</divisions><key><fifths>-1</fifths><mode>minor</mode></key></attributes>
+      <note><pitch><step>D</step><octave>4</octave></pitch><duration>8</duration><type>whole</type></note>
+    </measure>`;
+
+    const { composition } = importMusicXml(score(measures));
+
+    expect(composition.key).toBe("D");
+    expect(composition.scale).toBe("minor");
+  });
+
+  it("reads back minor keys", () => {
+    ["C", "D", "A", "F#", "C#", "Ab", "Eb"].forEach((key) => {
+      const composition: Composition = {
+        tracks: [
+          {
+            id: "1",
+            instrument: "flute",
+            notes: [{ step: 0, pitch: "C5", duration: "quarter" }],
+            volume: 0,
+            muted: false,
+          },
+        ],
+        bpm: 120,
+        key,
+        scale: "minor",
+        timeSignature: { numerator: 4, denominator: 4 },
+        totalSteps: 16,
+      };
+
+      const { composition: result } = importMusicXml(
+        exportMusicXml(composition)
+      );
+      expect(result.key).toBe(key);
+      expect(result.scale).toBe("minor");
+    });
+  });
+
+  it("rejects documents that are not partwise MusicXML", () => {
+    expect(() => importMusicXml("<nope")).toThrow(CompositionImportError);
+    expect(() => importMusicXml("<score-timewise/>")).toThrow(/partwise/);
+  });
+});
@@ -0,0 +1,729 @@
+import type { Composition, Note, NoteDuration, NoteValue, Rest, TimeSignature, Track } from "./types"
+import {
+  KEY_SIGNATURES,
+  STEP_EPSILON,
+  getInstrumentClef,
+  isTiedInto,
+  midiToNoteName,
+  noteNameToMidi,
+  noteSteps,
+  parsePitch,
+  stepsPerMeasure,
+  tieContinuation,
+  tupletGroupSteps,
+} from "./music-utils"
+import { gmProgramFor, instrumentForProgram } from "./midi"
+import { INSTRUMENTS, getInstrument, kitPiece, kitPieceOn, type Clef, type KitPiece } from "./instruments"
+import { CompositionImportError, DEFAULT_TOTAL_STEPS } from "./composition"
+
+// Divisions per quarter note; one sequencer step (an eighth) is two divisions
+export const DIVISIONS = 4
+const DIVISIONS_PER_STEP = DIVISIONS / 2
+// Scores with tuplets use more divisions; give up on finer grids than this many times the default
+const MAX_DIVISION_SCALE = 12
+
+export const DURATION_DIVISIONS: Record<NoteDuration, number> = {
+  whole: DIVISIONS * 4,
+  half: DIVISIONS * 2,
+  quarter: DIVISIONS,
+  eighth: DIVISIONS / 2,
+  sixteenth: DIVISIONS / 4,
+}
+
+// MusicXML <type> names for each duration
+export const MUSICXML_TYPES: Record<NoteDuration, string> = {
+  whole: "whole",
+  half: "half",
+  quarter: "quarter",
+  eighth: "eighth",
+  sixteenth: "16th",
+}
+
+// Longest first, so lengths can be split greedily into written values
+const DURATIONS_BY_LENGTH = (Object.keys(DURATION_DIVISIONS) as NoteDuration[]).sort(
+  (a, b) => DURATION_DIVISIONS[b] - DURATION_DIVISIONS[a],
+)
+
+// Key names by number of sharps (positive) or flats (negative) in <fifths>
+const FIFTHS_KEYS: Record<number, string> = {
+  0: "C",
+  1: "G",
+  2: "D",
+  3: "A",
+  4: "E",
+  5: "B",
+  6: "F#",
+  7: "C#",
+  [-1]: "F",
+  [-2]: "Bb",
+  [-3]: "Eb",
+  [-4]: "Ab",
+  [-5]: "Db",
+  [-6]: "Gb",
+  [-7]: "Cb",
+}
+
+export interface MusicXmlImport {
+  composition: Composition
+  // Human readable notes about anything that could not be represented
+  warnings: string[]
+}
+
+const CLEFS: Record<Clef, { sign: string; line?: number }> = {
+  treble: { sign: "G", line: 2 },
+  bass: { sign: "F", line: 4 },
+  percussion: { sign: "percussion" },
+}
+
+// Write a composition as a partwise MusicXML 4.0 document with one part per track
+export function exportMusicXml(composition: Composition): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    "  <part-list>",
+  ]
+
+  composition.tracks.forEach((track, index) => {
+    const id = partId(index)
+    lines.push(
+      `    <score-part id="${id}">`,
+      `      <part-name>${escapeXml(instrumentName(track.instrument))}</part-name>`,
+      `      <score-instrument id="${id}-I1">`,
+      `        <instrument-name>${escapeXml(instrumentName(track.instrument))}</instrument-name>`,
+      "      </score-instrument>",
+      `      <midi-instrument id="${id}-I1">`,
+      `        <midi-channel>${(index % 16) + 1}</midi-channel>`,
+      `        <midi-program>${gmProgramFor(track.instrument) + 1}</midi-program>`,
+      "      </midi-instrument>",
+      "    </score-part>",
+    )
+  })
+  lines.push("  </part-list>")
+
+  const scale = divisionScale(composition)
+  composition.tracks.forEach((track, index) => {
+    lines.push(`  <part id="${partId(index)}">`, ...partMeasures(track, composition, index === 0, scale), "  </part>")
+  })
+
+  lines.push("</score-partwise>")
+  return lines.join("\n") + "\n"
+}
+
+// Read a partwise MusicXML document into tracks. Features the builder cannot
+// represent are approximated and listed in the returned warnings.
+export function importMusicXml(xml: string): MusicXmlImport {
+  const doc = new DOMParser().parseFromString(xml, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new CompositionImportError("The file is not valid XML.")
+  }
+
+  const root = doc.documentElement
+  if (root.tagName === "score-timewise") {
+    throw new CompositionImportError("Timewise MusicXML is not supported. Please export a partwise score.")
+  }
+  if (root.tagName !== "score-partwise") {
+    throw new CompositionImportError("The file is not a MusicXML score.")
+  }
+
+  const warnings = new WarningCounter()
+  const score = {
+    key: undefined as string | undefined,
+    scale: undefined as string | undefined,
+    timeSignature: undefined as TimeSignature | undefined,
+    bpm: undefined as number | undefined,
+  }
+
+  const scoreParts = new Map<string, Element>()
+  children(root.querySelector("part-list"), "score-part").forEach((part) => {
+    scoreParts.set(part.getAttribute("id") ?? "", part)
+  })
+
+  const tracks: Track[] = []
+  let measureCount = 0
+
+  children(root, "part").forEach((part) => {
+    const scorePart = scoreParts.get(part.getAttribute("id") ?? "")
+    const notes: Note[] = []
+    let divisions = 1
+    let position = 0
+    let lastOnset = 0
+    // Notes waiting for the continuation of a tie, by pitch
+    const tiedFrom = new Map<string, { note: Note; length: number }>()
+    // Notes read from where they are drawn rather than from a pitch, placed on a kit piece once the instrument is known
+    const unpitched = new Set<Note>()
+
+    const measures = children(part, "measure")
+    measureCount = Math.max(measureCount, measures.length)
+
+    measures.forEach((measure) => {
+      const measureStart = position
+      let measureEnd = position
+
+      Array.from(measure.children).forEach((element) => {
+        switch (element.tagName) {
+          case "attributes": {
+            divisions = Number(text(element, "divisions")) || divisions
+            const fifths = text(element, "key > fifths")
+            if (fifths !== null) {
+              const scale = text(element, "key > mode") === "minor" ? "minor" : "major"
+              const key = fifthsKey(Number(fifths), scale)
+              if (score.key === undefined) {
+                score.key = key ?? "C"
+                score.scale = scale
+              } else if (score.key !== key || score.scale !== scale) {
+                warnings.once("key change", "Key changes are not supported; the first key is used throughout.")
+              }
+            }
+            const beats = text(element, "time > beats")
+            const beatType = text(element, "time > beat-type")
+            if (beats !== null && beatType !== null) {
+              const timeSignature = { numerator: Number(beats), denominator: Number(beatType) }
+              if (!Number.isInteger(timeSignature.numerator) || !Number.isInteger(timeSignature.denominator)) {
+                warnings.once("compound meter", "Additive time signatures such as 3+2/8 are not supported; 4/4 is used.")
+              } else if (score.timeSignature === undefined) {
+                score.timeSignature = timeSignature
+              } else if (
+                score.timeSignature.numerator !== timeSignature.numerator ||
+                score.timeSignature.denominator !== timeSignature.denominator
+              ) {
+                warnings.once(
+                  "time change",
+                  "Time signature changes are not supported; the first time signature is used throughout.",
+                )
+              }
+            }
+            if (Number(text(element, "staves")) > 1) {
+              warnings.once("staves", "Parts written on several staves were merged onto one staff.")
+            }
+            break
+          }
+          case "direction":
+          case "sound": {
+            const sound = element.tagName === "sound" ? element : element.querySelector("sound")
+            const tempo = Number(sound?.getAttribute("tempo"))
+            if (tempo > 0) {
+              if (score.bpm === undefined) score.bpm = Math.round(tempo)
+              else if (Math.round(tempo) !== score.bpm) {
+                warnings.once("tempo change", "Tempo changes are not supported; the first tempo is used throughout.")
+              }
+            }
+            break
+          }
+          case "backup":
+            position -= Number(text(element, "duration")) || 0
+            warnings.once("voices", "Parts with more than one voice were merged into a single voice.")
+            break
+          case "forward":
+            position += Number(text(element, "duration")) || 0
+            break
+          case "note": {
+            const length = Number(text(element, "duration")) || 0
+
+            if (child(element, "grace")) {
+              warnings.add("grace", "Grace notes were left out.")
+              return
+            }
+            if (child(element, "cue")) {
+              warnings.add("cue", "Cue notes were left out.")
+              return
+            }
+
+            const isChord = child(element, "chord") !== null
+            const onset = isChord ? lastOnset : position
+            if (!isChord) position += length
+            measureEnd = Math.max(measureEnd, position)
+
+            if (child(element, "rest") || !(child(element, "pitch") || child(element, "unpitched"))) {
+              lastOnset = onset
+              return
+            }
+
+            const pitch = readPitch(element, warnings)
+            const tieStart = element.querySelector(':scope > tie[type="start"]') !== null
+            const tied = element.querySelector(':scope > tie[type="stop"]') ? tiedFrom.get(pitch) : undefined
+            lastOnset = onset
+
+            const value = readValue(element, length, divisions, warnings)
+
+            if (tied) {
+              // A note held over a barline is written as tied pieces; one that fits a single value is read as it
+              const merged = !tied.note.tuplet && !value.tuplet && exactValue((tied.length + length) / divisions)
+              if (onset === measureStart && merged) {
+                tied.note.duration = merged.duration
+                if (merged.dotted) tied.note.dotted = true
+                else delete tied.note.dotted
+                tied.length += length
+                if (!tieStart) tiedFrom.delete(pitch)
+                return
+              }
+              tied.note.tie = true
+              tiedFrom.delete(pitch)
+            }
+
+            // Tuplet notes keep their place between steps; anything else off the grid is moved onto it
+            const rawStep = (onset * 2) / divisions
+            const step = value.tuplet ? rawStep : Math.round(rawStep)
+            if (Math.abs(step - rawStep) > STEP_EPSILON) {
+              warnings.add("grid", "Some notes were moved onto the nearest eighth-note step.")
+            }
+
+            if (notes.some((note) => note.step === step && note.pitch === pitch)) return
+            const note: Note = { step, pitch, ...value }
+            notes.push(note)
+            if (child(element, "unpitched")) unpitched.add(note)
+            if (tieStart) tiedFrom.set(pitch, { note, length })
+            break
+          }
+        }
+      })
+
+      // Incomplete (pickup) measures still advance to their written end
+      position = Math.max(position, measureEnd, measureStart)
+    })
+
+    const name = text(scorePart, "part-name") ?? ""
+    const program = Number(text(scorePart, "midi-instrument > midi-program"))
+    let instrument = matchInstrument(name)
+    if (!instrument && program > 0) instrument = instrumentForProgram(program - 1)
+    if (!instrument) {
+      warnings.once(`instrument ${name}`, `"${name || "Unnamed part"}" is not a known instrument, so piano is used.`)
+      instrument = "piano"
+    }
+
+    const kit = getInstrument(instrument)?.kit
+    tracks.push({
+      id: String(tracks.length + 1),
+      instrument,
+      notes: notes
+        .map((note) => (kit && unpitched.has(note) ? { ...note, pitch: kitPieceOn(kit, note.pitch).pitch } : note))
+        .sort((a, b) => a.step - b.step),
+      volume: 0,
+      muted: false,
+    })
+  })
+
+  if (tracks.length === 0) {
+    throw new CompositionImportError("The score does not contain any parts.")
+  }
+
+  const timeSignature = score.timeSignature ?? { numerator: 4, denominator: 4 }
+  const measure = stepsPerMeasure(timeSignature)
+  const lastStep = Math.max(0, ...tracks.flatMap((track) => track.notes.map((note) => note.step + 1)))
+
+  return {
+    composition: {
+      tracks,
+      bpm: score.bpm ?? 120,
+      key: score.key ?? "C",
+      scale: score.scale ?? "major",
+      timeSignature,
+      totalSteps: Math.max(DEFAULT_TOTAL_STEPS, measureCount * measure, Math.ceil(lastStep / measure) * measure),
+    },
+    warnings: warnings.messages(),
+  }
+}
+
+function readPitch(note: Element, warnings: WarningCounter): string {
+  // Unpitched percussion notes only say which line or space they are drawn on
+  if (child(note, "unpitched")) {
+    return `${text(note, "unpitched > display-step") ?? "C"}${text(note, "unpitched > display-octave") ?? 5}`
+  }
+
+  const step = text(note, "pitch > step") ?? "C"
+  const octave = Number(text(note, "pitch > octave") ?? 4)
+  const alter = Math.round(Number(text(note, "pitch > alter") ?? 0))
+
+  if (alter === 0) return `${step}${octave}`
+  if (alter === 1) return `${step}#${octave}`
+  if (alter === -1) return `${step}b${octave}`
+
+  // Double sharps and flats are respelled as the equivalent single accidental or natural
+  warnings.add("double accidental", "Double sharps and flats were respelled.")
+  return midiToNoteName(noteNameToMidi(`${step}${octave}`) + alter)
+}
+
+// The written value of a note: its type, a dot and any tuplet it is played in
+function readValue(note: Element, length: number, divisions: number, warnings: WarningCounter): NoteValue {
+  const dots = children(note, "dot").length
+  if (dots > 1) {
+    warnings.add("dots", "Notes with more than one dot were given a single dot.")
+  }
+
+  const actual = Number(text(note, "time-modification > actual-notes"))
+  const normal = Number(text(note, "time-modification > normal-notes"))
+  const tuplet = actual > 0 && normal > 0 && actual !== normal ? { actual, normal } : undefined
+
+  return {
+    duration: readDuration(note, length, divisions, warnings),
+    ...(dots > 0 && { dotted: true }),
+    ...(tuplet && { tuplet }),
+  }
+}
+
+function readDuration(note: Element, length: number, divisions: number, warnings: WarningCounter): NoteDuration {
+  const type = text(note, "type")
+  const written = (Object.keys(MUSICXML_TYPES) as NoteDuration[]).find((duration) => MUSICXML_TYPES[duration] === type)
+  if (written) return written
+
+  if (type) {
+    warnings.add(`type ${type}`, `Notes of type "${type}" were changed to the nearest supported value.`)
+  }
+
+  // Fall back to the sounding length when the written type is missing or unsupported
+  return nearestDuration(length / divisions)
+}
+
+// The plain or dotted value lasting exactly a length in quarter notes, if there is one
+function exactValue(quarters: number): NoteValue | undefined {
+  for (const duration of DURATIONS_BY_LENGTH) {
+    const plain = DURATION_DIVISIONS[duration] / DIVISIONS
+    if (Math.abs(plain - quarters) < 1e-6) return { duration }
+    if (Math.abs(plain * 1.5 - quarters) < 1e-6) return { duration, dotted: true }
+  }
+  return undefined
+}
+
+// Snap a length in quarter notes to the nearest written value
+function nearestDuration(quarters: number): NoteDuration {
+  return DURATIONS_BY_LENGTH.reduce((best, duration) =>
+    Math.abs(Math.log2(quarters / (DURATION_DIVISIONS[duration] / DIVISIONS))) <
+    Math.abs(Math.log2(quarters / (DURATION_DIVISIONS[best] / DIVISIONS)))
+      ? duration
+      : best,
+  )
+}
+
+// Map a part name such as "Violin I" or "Horn in F" onto one of our instruments
+function matchInstrument(name: string): string | undefined {
+  const normalized = name.toLowerCase()
+  // Longest names first, so that "double bass" wins over "bass"
+  const match = INSTRUMENTS.flatMap((instrument) => [instrument.id, ...(instrument.aliases ?? [])])
+    .sort((a, b) => b.length - a.length)
+    .find((instrument) => normalized.includes(instrument))
+  return match && getInstrument(match)?.id
+}
+
+// Collects one message per kind of problem along with how often it happened
+class WarningCounter {
+  private counts = new Map<string, { message: string; count: number }>()
+
+  add(kind: string, message: string) {
+    const entry = this.counts.get(kind)
+    if (entry) entry.count++
+    else this.counts.set(kind, { message, count: 1 })
+  }
+
+  // Record a problem that affects the whole score, so repeats are not counted
+  once(kind: string, message: string) {
+    if (!this.counts.has(kind)) this.counts.set(kind, { message, count: 1 })
+  }
+
+  messages() {
+    return [...this.counts.values()].map(({ message, count }) => (count > 1 ? `${message} (${count}×)` : message))
+  }
+}
+
+function children(parent: Element | null | undefined, tagName: string): Element[] {
+  return Array.from(parent?.children ?? []).filter((element) => element.tagName === tagName)
+}
+
+function child(parent: Element, tagName: string): Element | null {
+  return children(parent, tagName)[0] ?? null
+}
+
+function text(parent: Element | null | undefined, selector: string): string | null {
+  return parent?.querySelector(selector)?.textContent?.trim() ?? null
+}
+
+// The smallest multiple of DIVISIONS that puts every note on a whole number of divisions.
+// Plain and dotted values fit the default; triplets need three times as many.
+function divisionScale(composition: Composition): number {
+  const positions = composition.tracks
+    .flatMap((track) => track.notes)
+    .flatMap((note) => [note.step, note.step + noteSteps(note)])
+    .map((step) => step * DIVISIONS_PER_STEP)
+
+  for (let scale = 1; scale <= MAX_DIVISION_SCALE; scale++) {
+    if (positions.every((position) => Math.abs(position * scale - Math.round(position * scale)) < 1e-6)) return scale
+  }
+  // Anything finer is rounded onto the grid
+  return 1
+}
+
+function partMeasures(track: Track, composition: Composition, withTempo: boolean, scale: number): string[] {
+  const perStep = DIVISIONS_PER_STEP * scale
+  const measureLength = stepsPerMeasure(composition.timeSignature) * perStep
+  const measureCount = Math.max(1, Math.ceil((composition.totalSteps * perStep) / measureLength))
+  const scoreLength = measureCount * measureLength
+  const measures: string[][] = Array.from({ length: measureCount }, () => [])
+
+  // Notes that start together are written as a chord
+  const onsets = new Map<number, Note[]>()
+  track.notes.forEach((note) => {
+    const start = Math.round(note.step * perStep)
+    if (start >= scoreLength) return
+    onsets.set(start, [...(onsets.get(start) ?? []), note])
+  })
+  const starts = [...onsets.keys()].sort((a, b) => a - b)
+  const rests = [...(track.rests ?? [])].sort((a, b) => a.step - b.step)
+
+  let cursor = 0
+  starts.forEach((start, index) => {
+    if (start > cursor) writeSilence(measures, cursor, start, measureLength, rests, scale)
+
+    const chord = onsets.get(start)!
+    const longest = Math.max(...chord.map((note) => Math.round(noteSteps(note) * perStep)))
+    // Without voices a note can only sound until the next onset or the end of the score
+    const end = Math.min(start + longest, starts[index + 1] ?? scoreLength, scoreLength)
+    writeNotes(measures, chord, track.notes, start, end, measureLength, scale, getInstrument(track.instrument)?.kit)
+    cursor = end
+  })
+  if (cursor < scoreLength) writeSilence(measures, cursor, scoreLength, measureLength, rests, scale)
+
+  const { sign, line } = CLEFS[getInstrumentClef(track.instrument)]
+
+  return measures.flatMap((content, index) => {
+    const header =
+      index === 0
+        ? [
+            "      <attributes>",
+            `        <divisions>${DIVISIONS * scale}</divisions>`,
+            "        <key>",
+            `          <fifths>${keyFifths(composition.key, composition.scale)}</fifths>`,
+            `          <mode>${composition.scale === "minor" ? "minor" : "major"}</mode>`,
+            "        </key>",
+            "        <time>",
+            `          <beats>${composition.timeSignature.numerator}</beats>`,
+            `          <beat-type>${composition.timeSignature.denominator}</beat-type>`,
+            "        </time>",
+            "        <clef>",
+            `          <sign>${sign}</sign>`,
+            ...(line ? [`          <line>${line}</line>`] : []),
+            "        </clef>",
+            "      </attributes>",
+            ...(withTempo ? tempoDirection(composition.bpm) : []),
+          ]
+        : []
+
+    return [`    <measure number="${index + 1}">`, ...header, ...content, "    </measure>"]
+  })
+}
+
+// A written value placed in a measure, with its length in divisions
+interface Piece extends NoteValue {
+  measure: number
+  duration: NoteDuration
+  length: number
+}
+
+function writePitch(pitch: string, kit?: KitPiece[]): string[] {
+  const piece = kit && kitPiece(kit, pitch)
+  if (piece) {
+    const { letter, octave } = parsePitch(piece.staff)
+    return [
+      "        <unpitched>",
+      `          <display-step>${letter}</display-step>`,
+      `          <display-octave>${octave}</display-octave>`,
+      "        </unpitched>",
+    ]
+  }
+
+  const { letter: step, alter, octave } = parsePitch(pitch)
+  return [
+    "        <pitch>",
+    `          <step>${step}</step>`,
+    ...(alter ? [`          <alter>${alter}</alter>`] : []),
+    `          <octave>${octave}</octave>`,
+    "        </pitch>",
+  ]
+}
+
+// Write a chord from start to end. When the chord sounds for its full value inside one
+// measure it is written as that value, dot and tuplet included; otherwise it is split
+// into plain values tied across barlines. Ties between notes are carried on as written.
+// Kit pieces are written unpitched, on the line or space they are drawn on.
+function writeNotes(
+  measures: string[][],
+  chord: Note[],
+  notes: Note[],
+  start: number,
+  end: number,
+  measureLength: number,
+  scale: number,
+  kit?: KitPiece[],
+) {
+  const value = chord.reduce((longest, note) => (noteSteps(note) > noteSteps(longest) ? note : longest))
+  const length = Math.round(noteSteps(value) * DIVISIONS_PER_STEP * scale)
+  const measure = Math.floor(start / measureLength)
+  const pieces: Piece[] =
+    end - start === length && end <= (measure + 1) * measureLength
+      ? [{ measure, duration: value.duration ?? "eighth", dotted: value.dotted, tuplet: value.tuplet, length }]
+      : splitLength(start, end, measureLength, scale)
+
+  pieces.forEach((piece, pieceIndex) => {
+    const lastPiece = pieceIndex === pieces.length - 1
+    // Tuplet brackets open on the first note of a group and close on the last
+    const group = piece.tuplet && Math.round(tupletGroupSteps(piece) * DIVISIONS_PER_STEP * scale)
+    const tupletStart = !!group && start % group === 0
+    const tupletStop = !!group && end % group === 0
+
+    chord.forEach((note, noteIndex) => {
+      const tieStart = !lastPiece || !!tieContinuation(notes, note)
+      const tieStop = pieceIndex > 0 || isTiedInto(notes, note)
+      const lines = [
+        "      <note>",
+        ...(noteIndex > 0 ? ["        <chord/>"] : []),
+        ...writePitch(note.pitch, kit),
+        `        <duration>${piece.length}</duration>`,
+        ...(tieStop ? ['        <tie type="stop"/>'] : []),
+        ...(tieStart ? ['        <tie type="start"/>'] : []),
+        "        <voice>1</voice>",
+        `        <type>${MUSICXML_TYPES[piece.duration]}</type>`,
+        ...(piece.dotted ? ["        <dot/>"] : []),
+        ...(piece.tuplet
+          ? [
+              "        <time-modification>",
+              `          <actual-notes>${piece.tuplet.actual}</actual-notes>`,
+              `          <normal-notes>${piece.tuplet.normal}</normal-notes>`,
+              "        </time-modification>",
+            ]
+          : []),
+      ]
+      const bracket = noteIndex === 0 && (tupletStart || tupletStop)
+      if (tieStart || tieStop || bracket) {
+        lines.push(
+          "        <notations>",
+          ...(tieStop ? ['          <tied type="stop"/>'] : []),
+          ...(tieStart ? ['          <tied type="start"/>'] : []),
+          ...(bracket && tupletStart ? ['          <tuplet type="start" bracket="yes"/>'] : []),
+          ...(bracket && tupletStop ? ['          <tuplet type="stop"/>'] : []),
+          "        </notations>",
+        )
+      }
+      lines.push("      </note>")
+      measures[piece.measure].push(...lines)
+    })
+  })
+}
+
+// Write a silent region: rests the user placed keep their value, the gaps around them are filled
+function writeSilence(
+  measures: string[][],
+  start: number,
+  end: number,
+  measureLength: number,
+  rests: Rest[],
+  scale: number,
+) {
+  let position = start
+
+  rests.forEach((rest) => {
+    const restStart = Math.round(rest.step * DIVISIONS_PER_STEP * scale)
+    if (restStart < position || restStart >= end) return
+
+    if (restStart > position) writeRests(measures, position, restStart, measureLength, scale)
+    position = Math.min(restStart + DURATION_DIVISIONS[rest.duration] * scale, end)
+    writeRests(measures, restStart, position, measureLength, scale, false)
+  })
+
+  if (position < end) writeRests(measures, position, end, measureLength, scale)
+}
+
+// Fill a silent region with rests, using a whole-measure rest for empty measures
+function writeRests(
+  measures: string[][],
+  start: number,
+  end: number,
+  measureLength: number,
+  scale: number,
+  measureRests = true,
+) {
+  const emptyMeasures = new Set<number>()
+  for (let measure = Math.ceil(start / measureLength); measureRests && (measure + 1) * measureLength <= end; measure++) {
+    emptyMeasures.add(measure)
+    measures[measure].push(
+      "      <note>",
+      '        <rest measure="yes"/>',
+      `        <duration>${measureLength}</duration>`,
+      "        <voice>1</voice>",
+      "      </note>",
+    )
+  }
+
+  splitLength(start, end, measureLength, scale)
+    .filter((piece) => !emptyMeasures.has(piece.measure))
+    .forEach((piece) => {
+      measures[piece.measure].push(
+        "      <note>",
+        "        <rest/>",
+        `        <duration>${piece.length}</duration>`,
+        "        <voice>1</voice>",
+        `        <type>${MUSICXML_TYPES[piece.duration]}</type>`,
+        "      </note>",
+      )
+    })
+}
+
+// Break a span into plain written values that never cross a barline
+function splitLength(start: number, end: number, measureLength: number, scale: number): Piece[] {
+  const pieces: Piece[] = []
+  let position = start
+
+  while (position < end) {
+    const measure = Math.floor(position / measureLength)
+    const available = Math.min(end, (measure + 1) * measureLength) - position
+    const duration =
+      DURATIONS_BY_LENGTH.find((value) => DURATION_DIVISIONS[value] * scale <= available) ?? "sixteenth"
+    // A leftover shorter than a sixteenth (from rounding) is written as one, but only as long as it is
+    const length = Math.min(DURATION_DIVISIONS[duration] * scale, available)
+    pieces.push({ measure, duration, length })
+    position += length
+  }
+
+  return pieces
+}
+
+// The tonic a key signature stands for. A minor key has three flats more than the major
+// key on the same tonic, so three flats in minor is C minor.
+function fifthsKey(fifths: number, scale: string): string | undefined {
+  if (scale !== "minor") return FIFTHS_KEYS[fifths]
+  const tonic = fifths + 3
+  // Minor keys past seven sharps are read as their flat equivalent, e.g. G# minor as Ab minor
+  return FIFTHS_KEYS[tonic > 7 ? tonic - 12 : tonic]
+}
+
+// The sharps (positive) or flats (negative) of a key signature. A minor key has three more
+// flats than the major key on the same tonic: C minor is written like Eb major.
+function keyFifths(key: string, scale: string): number {
+  const { sharps, flats } = KEY_SIGNATURES[key] ?? KEY_SIGNATURES.C
+  const fifths = sharps.length - flats.length - (scale === "minor" ? 3 : 0)
+  // Minor keys past seven flats are written as their sharp equivalent, e.g. Db minor as C# minor
+  return fifths < -7 ? fifths + 12 : fifths
+}
+
+function tempoDirection(bpm: number): string[] {
+  return [
+    '      <direction placement="above">',
+    "        <direction-type>",
+    "          <metronome>",
+    "            <beat-unit>quarter</beat-unit>",
+    `            <per-minute>${bpm}</per-minute>`,
+    "          </metronome>",
+    "        </direction-type>",
+    `        <sound tempo="${bpm}"/>`,
+    "      </direction>",
+  ]
+}
+
+function partId(index: number) {
+  return `P${index + 1}`
+}
+
+function instrumentName(instrument: string) {
+  return instrument.replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
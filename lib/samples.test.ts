@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+
+vi.mock("tone", async () => {
+  const { noteNameToMidi } =
+    await vi.importActual<typeof import("./music-utils")>("./music-utils");
+  return {
+    ToneAudioBuffer: Object.assign(
+      vi.fn(function (buffer: AudioBuffer) {
+        return { duration: buffer.duration, dispose: vi.fn() };
+      }),
+      { load: vi.fn(() => Promise.reject(new Error("404 Not Found"))) }
+    ),
+    ToneBufferSource: vi.fn(function (options: object) {
+      return {
+        options,
+        start: vi.fn(),
+        stop: vi.fn(),
+        dispose: vi.fn(),
+        connect() {
+          return this;
+        },
+      };
+    }),
+    Volume: vi.fn(function () {
+      return {
+        volume: { value: 0 },
+        toSeconds: (time?: number) => time ?? 0,
+        connect: vi.fn(),
+        dispose: vi.fn(),
+      };
+    }),
+    Frequency: (note: string) => ({ toMidi: () => noteNameToMidi(note) }),
+    intervalToFrequencyRatio: (interval: number) => Math.pow(2, interval / 12),
+  };
+});
+
+import { INSTRUMENTS, type SampleSet, getInstrument } from "./instruments";
+import {
+  SampledInstrument,
+  createSampledInstrument,
+  hasSamples,
+  loadSamples,
+  nearestRecording,
+  sampleUrl,
+} from "./samples";
+
+describe("sample files", () => {
+  it("names files after the instrument, layer and pitch", () => {
+    expect(sampleUrl("violin", { name: "mf", velocity: 0.7 }, "A4")).toBe(
+      "/samples/violin/mf/A4.mp3"
+    );
+    expect(sampleUrl("french horn", { name: "p", velocity: 0.4 }, "C#3")).toBe(
+      "/samples/french-horn/p/Cs3.mp3"
+    );
+  });
+
+  it("records each sample set every minor third across the layers", () => {
+    const samples = getInstrument("piano")?.samples;
+    expect(samples?.notes.slice(0, 3)).toEqual(["A0", "C1", "D#1"]);
+    expect(samples?.notes).toHaveLength(30);
+    expect(samples?.layers.map(({ name }) => name)).toEqual(["p", "f"]);
+    // Instruments without bundled recordings don't ask for any
+    expect(getInstrument("violin")?.samples).toBeUndefined();
+    expect(getInstrument("synthesizer")?.samples).toBeUndefined();
+  });
+
+  it("bundles every recording a sample set names", () => {
+    const missing = INSTRUMENTS.flatMap(({ id, samples }) =>
+      (samples?.layers ?? []).flatMap((layer) =>
+        samples!.notes
+          .map((pitch) => sampleUrl(id, layer, pitch))
+          .filter((url) => !existsSync(join("public", url)))
+      )
+    );
+    expect(missing).toEqual([]);
+  });
+});
+
+describe("nearestRecording", () => {
+  const recorded = [57, 60, 63];
+
+  it("plays recorded pitches as they are", () => {
+    expect(nearestRecording(recorded, 60)).toEqual({ midi: 60, interval: 0 });
+  });
+
+  it("repitches the nearest recording, taking the lower one when both are as near", () => {
+    expect(nearestRecording(recorded, 62)).toEqual({ midi: 63, interval: -1 });
+    expect(nearestRecording(recorded, 61)).toEqual({ midi: 60, interval: 1 });
+    expect(nearestRecording(recorded, 70)).toEqual({ midi: 63, interval: 7 });
+  });
+});
+
+describe("loadSamples", () => {
+  it("falls back to the synth when an instrument's samples are missing", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const progress = vi.fn();
+    const loaded = await loadSamples(
+      ["piano", "piano", "synthesizer"],
+      progress
+    );
+
+    const files = 2 * getInstrument("piano")!.samples!.notes.length;
+    expect(loaded).toEqual([]);
+    expect(progress).toHaveBeenCalledWith({ loaded: 0, total: files });
+    expect(progress).toHaveBeenLastCalledWith({ loaded: files, total: files });
+    expect(hasSamples("piano")).toBe(false);
+    expect(createSampledInstrument("piano")).toBeUndefined();
+  });
+
+  it("doesn't request missing samples again", async () => {
+    const Tone = await import("tone");
+    const requests = vi.mocked(Tone.ToneAudioBuffer.load).mock.calls.length;
+
+    expect(await loadSamples(["piano"])).toEqual([]);
+    expect(Tone.ToneAudioBuffer.load).toHaveBeenCalledTimes(requests);
+  });
+});
+
+describe("SampledInstrument", () => {
+  const bowed: SampleSet = {
+    notes: ["C4"],
+    layers: [
+      { name: "p", velocity: 0.5 },
+      { name: "f", velocity: 1 },
+    ],
+    loop: { start: 0.5, end: 1.5 },
+    release: 0.3,
+  };
+  // A two second recording of C4 in each layer
+  const recording = { duration: 2 } as AudioBuffer;
+  const recordings = [{ C4: recording }, { C4: recording }];
+
+  const lastSource = async () => {
+    const Tone = await import("tone");
+    return vi.mocked(Tone.ToneBufferSource).mock.results.at(-1)!.value;
+  };
+
+  it("holds a looped recording round its loop points until the note ends", async () => {
+    const instrument = new SampledInstrument({
+      set: bowed,
+      buffers: recordings,
+    });
+    instrument.triggerAttackRelease("D4", 4, 1, 0.25);
+
+    const source = await lastSource();
+    expect(source.options).toMatchObject({
+      loop: true,
+      loopStart: 0.5,
+      loopEnd: 1.5,
+      fadeOut: 0.3,
+      playbackRate: Math.pow(2, 2 / 12),
+    });
+    // From the soft layer at half its velocity, with no end but the note's own
+    expect(source.start).toHaveBeenCalledWith(1, 0, undefined, 0.5);
+    expect(source.stop).toHaveBeenCalledWith(5);
+  });
+
+  it("lets a recording without loop points play out", async () => {
+    const struck = { ...bowed, loop: undefined };
+    const instrument = new SampledInstrument({
+      set: struck,
+      buffers: recordings,
+    });
+    instrument.triggerAttackRelease("C4", 4, 1, 0.8);
+
+    const source = await lastSource();
+    expect(source.options).not.toHaveProperty("loop");
+    expect(source.start).toHaveBeenCalledWith(1, 0, 2, 0.8);
+  });
+});
@@ -0,0 +1,225 @@
+// The sampler engine: instruments play from their recordings under public/samples/ once
+// loaded. It schedules Tone.ToneBufferSource directly rather than using Tone.Sampler, since
+// a Sampler always plays a recording through to its end and has no loop points, so a bowed
+// or blown note could never outlast its file. Velocity layers, one set of recordings each,
+// and per-note attack are handled here too.
+
+import * as Tone from "tone"
+import { getInstrument, type SampleLayer, type SampleSet } from "./instruments"
+import { noteNameToMidi } from "./music-utils"
+
+export interface SampleLoadProgress {
+  loaded: number
+  total: number
+}
+
+// Seconds a recording fades in over, enough to start it without a click. Notes that
+// speak more slowly or sharply scale it.
+const SAMPLE_ATTACK = 0.01
+
+// The recordings of an instrument once decoded, a pitch to buffer map per velocity layer
+interface LoadedSamples {
+  set: SampleSet
+  buffers: Record<string, AudioBuffer>[]
+}
+
+// Decoded sample sets by instrument id. Instruments whose recordings aren't bundled are
+// stored as "missing" so they aren't requested again and keep their synth recipe.
+const loadedSamples = new Map<string, LoadedSamples | "loading" | "missing">()
+
+// Where a recording is served from, e.g. /samples/french-horn/mf/Cs4.mp3
+export function sampleUrl(instrument: string, layer: SampleLayer, pitch: string): string {
+  return `/samples/${instrument.replace(/ /g, "-")}/${layer.name}/${pitch.replace("#", "s")}.mp3`
+}
+
+async function loadInstrument(id: string, set: SampleSet, onLoaded: () => void): Promise<LoadedSamples | "missing"> {
+  const recordings = set.layers.flatMap((layer, index) => set.notes.map((pitch) => ({ layer, index, pitch })))
+  const buffers: Record<string, AudioBuffer>[] = set.layers.map(() => ({}))
+
+  const load = async ({ layer, index, pitch }: (typeof recordings)[number]) => {
+    buffers[index][pitch] = await Tone.ToneAudioBuffer.load(sampleUrl(id, layer, pitch))
+    onLoaded()
+  }
+
+  try {
+    // Try one recording first so an instrument that isn't bundled costs a single request
+    await load(recordings[0])
+    const results = await Promise.allSettled(recordings.slice(1).map(load))
+    const failed = results.find((result) => result.status === "rejected")
+    if (failed) throw failed.reason
+    return { set, buffers }
+  } catch (error) {
+    console.warn(`Samples for ${id} could not be loaded, using its synth instead:`, error)
+    return "missing"
+  }
+}
+
+// Load the recordings of every instrument given that has them and hasn't been tried yet,
+// reporting each decoded file. Resolves, once every instrument is loaded or known to be missing,
+// to the ids of those that can now play from their recordings.
+export async function loadSamples(
+  instruments: string[],
+  onProgress?: (progress: SampleLoadProgress) => void,
+): Promise<string[]> {
+  const pending = [...new Set(instruments)].flatMap((name) => {
+    const instrument = getInstrument(name)
+    if (!instrument?.samples || loadedSamples.has(instrument.id)) return []
+    return [{ id: instrument.id, set: instrument.samples }]
+  })
+  if (pending.length === 0) return []
+
+  const total = pending.reduce((sum, { set }) => sum + set.layers.length * set.notes.length, 0)
+  let loaded = 0
+  onProgress?.({ loaded, total })
+  pending.forEach(({ id }) => loadedSamples.set(id, "loading"))
+
+  await Promise.all(
+    pending.map(async ({ id, set }) => {
+      let decoded = 0
+      const samples = await loadInstrument(id, set, () => {
+        decoded++
+        onProgress?.({ loaded: ++loaded, total })
+      })
+      loadedSamples.set(id, samples)
+      // The rest of a missing instrument's files are never requested, so count them as done
+      if (samples === "missing") {
+        loaded += set.layers.length * set.notes.length - decoded
+        onProgress?.({ loaded, total })
+      }
+    }),
+  )
+  return pending.flatMap(({ id }) => (hasSamples(id) ? [id] : []))
+}
+
+// Whether an instrument's recordings are decoded and ready to play
+export function hasSamples(instrument: string): boolean {
+  const id = getInstrument(instrument)?.id
+  return id !== undefined && typeof loadedSamples.get(id) === "object"
+}
+
+// The recording a pitch is played from: the nearest recorded one, and how many semitones to
+// repitch it by. Recordings are sorted from lowest to highest, so ties go to the one below.
+export function nearestRecording(recorded: number[], midi: number): { midi: number; interval: number } {
+  const nearest = recorded.reduce((best, candidate) =>
+    Math.abs(candidate - midi) < Math.abs(best - midi) ? candidate : best,
+  )
+  return { midi: nearest, interval: midi - nearest }
+}
+
+// One velocity layer of an instrument. Each note plays its nearest recording, repitched,
+// and a looped recording goes round its loop points until the note is released.
+class LayerPlayer {
+  private readonly buffers = new Map<number, Tone.ToneAudioBuffer>()
+  private readonly recorded: number[]
+  private readonly active = new Set<Tone.ToneBufferSource>()
+
+  constructor(
+    buffers: Record<string, AudioBuffer>,
+    private readonly set: SampleSet,
+    private readonly output: Tone.Volume,
+  ) {
+    Object.entries(buffers).forEach(([pitch, buffer]) => {
+      this.buffers.set(noteNameToMidi(pitch), new Tone.ToneAudioBuffer(buffer))
+    })
+    this.recorded = [...this.buffers.keys()].sort((a, b) => a - b)
+  }
+
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time,
+    time: number,
+    velocity: number,
+    attack: number,
+  ) {
+    const { loop, release } = this.set
+    notes.forEach((note) => {
+      const recording = nearestRecording(this.recorded, Tone.Frequency(note).toMidi())
+      const buffer = this.buffers.get(recording.midi)!
+      const playbackRate = Tone.intervalToFrequencyRatio(recording.interval)
+      const source = new Tone.ToneBufferSource({
+        url: buffer,
+        curve: "exponential",
+        fadeIn: SAMPLE_ATTACK * attack,
+        fadeOut: release,
+        playbackRate,
+        ...(loop && { loop: true, loopStart: loop.start, loopEnd: loop.end }),
+        onended: () => this.active.delete(source),
+      }).connect(this.output)
+
+      // A looped note has no end of its own; it sounds until it is stopped
+      source.start(time, 0, loop ? undefined : buffer.duration / playbackRate, velocity)
+      source.stop(time + this.output.toSeconds(duration))
+      this.active.add(source)
+    })
+  }
+
+  releaseAll(time: number) {
+    this.active.forEach((source) => source.stop(time))
+    this.active.clear()
+  }
+
+  dispose() {
+    this.active.forEach((source) => source.dispose())
+    this.active.clear()
+    this.buffers.forEach((buffer) => buffer.dispose())
+  }
+}
+
+// Plays an instrument from its recordings, one layer per velocity it was recorded at,
+// with the same controls the synth recipes offer
+export class SampledInstrument {
+  readonly volume: Tone.Param<"decibels">
+  private readonly output: Tone.Volume
+  private readonly layers: { velocity: number; player: LayerPlayer }[]
+
+  constructor({ set, buffers }: LoadedSamples) {
+    this.output = new Tone.Volume()
+    this.volume = this.output.volume
+    this.layers = set.layers.map((layer, index) => ({
+      velocity: layer.velocity,
+      player: new LayerPlayer(buffers[index], set, this.output),
+    }))
+  }
+
+  // Play from the softest layer recorded at least as loud as the velocity, scaled down to it
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time,
+    time?: Tone.Unit.Time,
+    velocity = 1,
+    attack = 1,
+  ) {
+    const layer = this.layers.find((candidate) => candidate.velocity >= velocity) ?? this.layers[this.layers.length - 1]
+    layer.player.triggerAttackRelease(
+      Array.isArray(notes) ? notes : [notes],
+      duration,
+      this.output.toSeconds(time),
+      Math.min(1, velocity / layer.velocity),
+      attack,
+    )
+    return this
+  }
+
+  releaseAll(time?: Tone.Unit.Time) {
+    this.layers.forEach(({ player }) => player.releaseAll(this.output.toSeconds(time)))
+    return this
+  }
+
+  connect(destination: Tone.InputNode) {
+    this.output.connect(destination)
+    return this
+  }
+
+  dispose() {
+    this.layers.forEach(({ player }) => player.dispose())
+    this.output.dispose()
+    return this
+  }
+}
+
+// A sampled voice for an instrument in the current context, or undefined until its recordings are loaded
+export function createSampledInstrument(instrument: string): SampledInstrument | undefined {
+  const id = getInstrument(instrument)?.id
+  const samples = id === undefined ? undefined : loadedSamples.get(id)
+  return typeof samples === "object" ? new SampledInstrument(samples) : undefined
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  SESSION_SCHEMA_VERSION,
+  hasUnsavedChanges,
+  readProject,
+  readSession,
+  writeProject,
+  writeSession,
+  type Project,
+  type Session,
+} from "./storage";
+
+describe("session storage", () => {
+  const session: Session = {
+    composition: {
+      tracks: [
+        {
+          id: "1",
+          instrument: "flute",
+          notes: [{ step: 2, pitch: "A5", duration: "quarter" }],
+          volume: -3,
+          muted: false,
+        },
+      ],
+      bpm: 110,
+      key: "D",
+      scale: "major",
+      timeSignature: { numerator: 3, denominator: 4 },
+      totalSteps: 12,
+    },
+    projectId: "abc",
+    savedAt: 2000,
+    documentSavedAt: 1000,
+  };
+
+  it("reads back what it writes", () => {
+    const record = writeSession(session);
+
+    expect(record.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(readSession(record)).toEqual(session);
+  });
+
+  it("migrates compositions saved in an older format", () => {
+    // Saved before compositions had a version or a score length
+    const record = {
+      schemaVersion: 1,
+      savedAt: null,
+      documentSavedAt: null,
+      composition: JSON.stringify({
+        tracks: [
+          { id: "1", instrument: "piano", notes: [], volume: 0, muted: false },
+        ],
+        bpm: 120,
+        key: "C",
+      }),
+    };
+
+    const result = readSession(record);
+
+    expect(result?.composition.scale).toBe("major");
+    expect(result?.composition.totalSteps).toBe(16);
+    // Version 1 sessions predate projects
+    expect(result?.projectId).toBeNull();
+  });
+
+  it("ignores records it cannot read", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(readSession(undefined)).toBeNull();
+    expect(
+      readSession({
+        ...writeSession(session),
+        schemaVersion: SESSION_SCHEMA_VERSION + 1,
+      })
+    ).toBeNull();
+    expect(
+      readSession({ ...writeSession(session), composition: "{broken" })
+    ).toBeNull();
+
+    warn.mockRestore();
+  });
+
+  it("knows when the session has edits newer than the open document", () => {
+    expect(hasUnsavedChanges(session)).toBe(true);
+    expect(hasUnsavedChanges({ ...session, documentSavedAt: 3000 })).toBe(
+      false
+    );
+    expect(hasUnsavedChanges({ ...session, savedAt: null })).toBe(false);
+    expect(hasUnsavedChanges({ ...session, documentSavedAt: null })).toBe(true);
+  });
+
+  it("round-trips projects and skips unreadable ones", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const project: Project = {
+      id: "p1",
+      title: "Sketch",
+      createdAt: 100,
+      updatedAt: 200,
+      composition: session.composition,
+    };
+
+    expect(readProject(writeProject(project))).toEqual(project);
+    expect(readProject({ ...writeProject(project), title: 3 })).toBeNull();
+    expect(
+      readProject({ ...writeProject(project), composition: "[]" })
+    ).toBeNull();
+
+    warn.mockRestore();
+  });
+});
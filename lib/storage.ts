@@ -0,0 +1,208 @@
+import type { Composition } from "./types"
+import { parseComposition, serializeComposition } from "./composition"
+
+const DB_NAME = "orchestra-builder"
+// Version 2 added the projects store
+const DB_VERSION = 2
+const SESSION_STORE = "session"
+const PROJECT_STORE = "projects"
+const SESSION_KEY = "current"
+
+// Bump when the shape of a stored record changes, and teach its read function the old one
+export const SESSION_SCHEMA_VERSION = 2
+export const PROJECT_SCHEMA_VERSION = 1
+
+// Wait this long after the last change before writing the session
+export const AUTOSAVE_DELAY_MS = 1000
+
+export interface Session {
+  composition: Composition
+  // The library project the session was editing, if any
+  projectId: string | null
+  // When the saved composition was last edited, or null if it never was
+  savedAt: number | null
+  // When the document was last opened, exported or saved to its project
+  documentSavedAt: number | null
+}
+
+export interface Project {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  composition: Composition
+}
+
+// The records as written to IndexedDB. Compositions are kept in their export
+// format so older saves go through the same migrations as older files.
+interface SessionRecord {
+  schemaVersion: number
+  projectId: string | null
+  savedAt: number | null
+  documentSavedAt: number | null
+  composition: string
+}
+
+interface ProjectRecord {
+  schemaVersion: number
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  composition: string
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isTimestamp(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isFinite(value))
+}
+
+function readStoredComposition(json: unknown, what: string): Composition | null {
+  if (typeof json !== "string") return null
+  try {
+    return parseComposition(json)
+  } catch (error) {
+    console.warn(`Ignoring ${what} that could not be read:`, error)
+    return null
+  }
+}
+
+// Turn a stored record back into a session; returns null for records this version can't read
+export function readSession(record: unknown): Session | null {
+  if (!isRecord(record)) return null
+
+  if (typeof record.schemaVersion !== "number" || record.schemaVersion > SESSION_SCHEMA_VERSION) {
+    console.warn("Ignoring saved session from an unknown schema version:", record.schemaVersion)
+    return null
+  }
+  // Version 1 sessions predate projects
+  const projectId = record.schemaVersion < 2 ? null : record.projectId
+  if ((projectId !== null && typeof projectId !== "string") || !isTimestamp(record.savedAt) || !isTimestamp(record.documentSavedAt)) {
+    return null
+  }
+
+  const composition = readStoredComposition(record.composition, "saved session")
+  if (!composition) return null
+
+  return { composition, projectId, savedAt: record.savedAt, documentSavedAt: record.documentSavedAt }
+}
+
+export function writeSession(session: Session): SessionRecord {
+  return {
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    projectId: session.projectId,
+    savedAt: session.savedAt,
+    documentSavedAt: session.documentSavedAt,
+    composition: serializeComposition(session.composition),
+  }
+}
+
+// True when the session holds edits made after the document was last saved
+export function hasUnsavedChanges(session: Session) {
+  if (session.savedAt === null) return false
+  return session.documentSavedAt === null || session.savedAt > session.documentSavedAt
+}
+
+// Turn a stored record back into a project; returns null for records this version can't read
+export function readProject(record: unknown): Project | null {
+  if (!isRecord(record)) return null
+
+  if (typeof record.schemaVersion !== "number" || record.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    console.warn("Ignoring project from an unknown schema version:", record.schemaVersion)
+    return null
+  }
+  const { id, title, createdAt, updatedAt } = record
+  if (typeof id !== "string" || typeof title !== "string" || typeof createdAt !== "number" || typeof updatedAt !== "number") {
+    return null
+  }
+
+  const composition = readStoredComposition(record.composition, `project "${title}"`)
+  if (!composition) return null
+
+  return { id, title, createdAt, updatedAt, composition }
+}
+
+export function writeProject(project: Project): ProjectRecord {
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    id: project.id,
+    title: project.title,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    composition: serializeComposition(project.composition),
+  }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(SESSION_STORE)) {
+      db.createObjectStore(SESSION_STORE)
+    }
+    if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+      db.createObjectStore(PROJECT_STORE, { keyPath: "id" })
+    }
+  }
+  return requestResult(request)
+}
+
+// Run one request against a store and close the database afterwards
+async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase()
+  try {
+    return await requestResult(run(db.transaction(name, mode).objectStore(name)))
+  } finally {
+    db.close()
+  }
+}
+
+export async function loadSession(): Promise<Session | null> {
+  return readSession(await withStore(SESSION_STORE, "readonly", (store) => store.get(SESSION_KEY)))
+}
+
+export async function saveSession(session: Session) {
+  await withStore(SESSION_STORE, "readwrite", (store) => store.put(writeSession(session), SESSION_KEY))
+}
+
+// All readable projects, most recently modified first
+export async function listProjects(): Promise<Project[]> {
+  const records = await withStore(PROJECT_STORE, "readonly", (store) => store.getAll())
+  return records
+    .map(readProject)
+    .filter((project): project is Project => project !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  return readProject(await withStore(PROJECT_STORE, "readonly", (store) => store.get(id)))
+}
+
+export async function saveProject(project: Project) {
+  await withStore(PROJECT_STORE, "readwrite", (store) => store.put(writeProject(project)))
+}
+
+export async function deleteProject(id: string) {
+  await withStore(PROJECT_STORE, "readwrite", (store) => store.delete(id))
+}
+
+export async function createProject(title: string, composition: Composition): Promise<Project> {
+  const now = Date.now()
+  const project = { id: crypto.randomUUID(), title, createdAt: now, updatedAt: now, composition }
+  await saveProject(project)
+  return project
+}
@@ -2,16 +2,119 @@ export type InstrumentType = string
 
 export type NoteDuration = "whole" | "half" | "quarter" | "eighth" | "sixteenth"
 
-export interface Note {
+// A sign raising, lowering or restoring the note on a line or space
+export type Accidental = "sharp" | "flat" | "natural"
+
+// A group of notes played in the time of a different number of the same value.
+// A triplet is three in the time of two: { actual: 3, normal: 2 }.
+export interface Tuplet {
+  actual: number
+  normal: number
+}
+
+// A written note value: a plain duration, optionally dotted or played as part of a tuplet
+export interface NoteValue {
+  duration?: NoteDuration
+  // A dot lengthens the value by half
+  dotted?: boolean
+  tuplet?: Tuplet
+}
+
+// Dynamic markings, from softest to loudest
+export type Dynamic = "pp" | "p" | "mp" | "mf" | "f" | "ff"
+
+// How a note is attacked and held
+export type Articulation = "staccato" | "accent" | "tenuto"
+
+export interface Note extends NoteValue {
+  // Tuplet notes can start between steps
   step: number
   pitch: string
-  duration?: NoteDuration
+  // Held into the next note of the same pitch instead of being played again
+  tie?: boolean
+  // Played smoothly into the next note of the track, under one slur
+  slur?: boolean
+  // A marking written at this note that the music follows until the next one
+  dynamic?: Dynamic
+  articulations?: Articulation[]
+  // Loudness from 0 to 1, played instead of the dynamic marking
+  velocity?: number
+}
+
+// A gradual change of loudness over a span of steps, arriving at `end`
+export interface Hairpin {
+  type: "crescendo" | "diminuendo"
+  start: number
+  end: number
+}
+
+// A deliberate silence placed by the user. Gaps between notes get rests automatically.
+export interface Rest {
+  step: number
+  duration: NoteDuration
+}
+
+// An accidental as drawn before a note head. A courtesy accidental only reminds
+// the reader that one from the previous measure no longer applies.
+export interface StaffAccidental {
+  accidental: Accidental
+  courtesy: boolean
+}
+
+// A rest as drawn on the staff, either placed by the user or filling a gap
+export interface StaffRest extends Rest {
+  explicit: boolean
+  // Drawn as a whole rest centred in an otherwise empty measure
+  fullMeasure: boolean
+}
+
+export type EffectType = "reverb" | "delay" | "eq" | "compressor"
+
+// An insert effect on a track, with its settings by parameter id
+export interface TrackEffect {
+  type: EffectType
+  params: Record<string, number>
+  // Kept in the chain but skipped in playback
+  bypassed?: boolean
 }
 
 export interface Track {
   id: string
   instrument: InstrumentType
   notes: Note[]
+  rests?: Rest[]
+  hairpins?: Hairpin[]
   volume: number
   muted: boolean
+  // Played through in order before the track reaches the output
+  effects?: TrackEffect[]
+  // Stereo position from -1 (left) to 1 (right), centred when absent
+  pan?: number
+  // While any track is soloed, only soloed tracks are heard
+  solo?: boolean
+  // How much of the track is sent to the shared reverb, from 0 to 1
+  reverbSend?: number
+}
+
+export interface TimeSignature {
+  numerator: number
+  denominator: number
 }
+
+// Everything needed to restore a piece in the builder
+export interface Composition {
+  tracks: Track[]
+  bpm: number
+  key: string
+  scale: string
+  timeSignature: TimeSignature
+  totalSteps: number
+  // The master fader in decibels, 0 when absent
+  masterVolume?: number
+}
+
+// The parts of a composition covered by undo and redo
+export type ScoreSnapshot = Pick<
+  Composition,
+  "tracks" | "bpm" | "key" | "scale" | "timeSignature" | "totalSteps" | "masterVolume"
+>
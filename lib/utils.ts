@@ -4,3 +4,27 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Trigger a browser download for generated content
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// Check whether a drag carries data of a type. Browsers lowercase custom types,
+// and the type list is the only thing readable before the drop.
+export function hasDragType(dataTransfer: DataTransfer | null | undefined, type: string) {
+  return Array.from(dataTransfer?.types ?? []).includes(type)
+}
+
+// Check whether a drag carries files from the desktop rather than in-page data
+export function hasFiles(dataTransfer: DataTransfer | null | undefined) {
+  return hasDragType(dataTransfer, "Files")
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { encodeWav } from "./wav";
+
+function text(view: DataView, offset: number, length: number) {
+  return String.fromCharCode(
+    ...Array.from({ length }, (_, i) => view.getUint8(offset + i))
+  );
+}
+
+describe("WAV encoding", () => {
+  const left = new Float32Array([0, 1, -1]);
+  const right = new Float32Array([0.5, 2, -0.5]);
+
+  it("writes a stereo 16-bit PCM header", () => {
+    const view = new DataView(encodeWav([left, right], 44100, 16));
+
+    expect(text(view, 0, 4)).toBe("RIFF");
+    expect(text(view, 8, 4)).toBe("WAVE");
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(view, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(3 * 4);
+    expect(view.byteLength).toBe(44 + 12);
+  });
+
+  it("interleaves channels and clips out-of-range samples", () => {
+    const view = new DataView(encodeWav([left, right], 44100, 16));
+
+    expect(view.getInt16(44, true)).toBe(0);
+    expect(view.getInt16(46, true)).toBe(16384);
+    expect(view.getInt16(48, true)).toBe(32767);
+    expect(view.getInt16(50, true)).toBe(32767);
+    expect(view.getInt16(52, true)).toBe(-32767);
+    expect(view.getInt16(54, true)).toBe(-16383);
+  });
+
+  it("packs 24-bit samples into three bytes", () => {
+    const view = new DataView(encodeWav([left, right], 48000, 24));
+
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.byteLength).toBe(44 + 3 * 6);
+
+    // Full scale positive on the left channel of the second frame
+    const offset = 44 + 6;
+    const value =
+      view.getUint8(offset) |
+      (view.getUint8(offset + 1) << 8) |
+      (view.getUint8(offset + 2) << 16);
+    expect(value).toBe(0x7fffff);
+    // Full scale negative on the left channel of the third frame
+    expect(view.getUint8(44 + 12 + 2)).toBe(0x80);
+  });
+});
@@ -0,0 +1,57 @@
+export type WavBitDepth = 16 | 24
+
+function writeString(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i))
+  }
+}
+
+// Encode planar float samples (-1..1) as an interleaved PCM WAV file
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const channelCount = channels.length
+  const frameCount = channelCount > 0 ? channels[0].length : 0
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = channelCount * bytesPerSample
+  const dataSize = frameCount * blockAlign
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  // RIFF header
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(view, 8, "WAVE")
+
+  // Format chunk: uncompressed PCM
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, channelCount, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+
+  // Data chunk
+  writeString(view, 36, "data")
+  view.setUint32(40, dataSize, true)
+
+  const max = 2 ** (bitDepth - 1) - 1
+  let offset = 44
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][frame]))
+      const value = Math.round(sample * max)
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true)
+      } else {
+        // 24-bit samples are three little-endian bytes
+        view.setUint8(offset, value & 0xff)
+        view.setUint8(offset + 1, (value >> 8) & 0xff)
+        view.setUint8(offset + 2, (value >> 16) & 0xff)
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return buffer
+}